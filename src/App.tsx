@@ -1,38 +1,81 @@
-import  { useState } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import VerifyForm, { OrderInfo } from './components/VerifyForm';
+import MicCheck from './components/MicCheck';
 import Recorder from './components/Recorder';
 import Player from './components/Player';
+import PlayPage from './components/PlayPage';
+import { getPlayTaskId } from './utils/capsule-api';
+import { DEFAULT_TEMPLATE } from './utils/capsule-template';
+import type { Segment } from './utils/segment-state';
+import { clearScriptDrafts } from './utils/segment-script';
+import { loadSession, saveSession, clearSession, restoreSegmentStatus } from './utils/session-store';
 import './App.css';
 
-type AppView = 'verify' | 'record' | 'complete';
-
-interface Segment {
-  id: number;
-  status: 'pending' | 'recording' | 'processing' | 'recorded' | 'uploading' | 'uploaded' | 'error';  // 加上 processing
-  blob: Blob | null;
-  url: string | null;
-  uploadUrl: string | null;
-  retryCount: number;
-  errorMsg?: string;  // 加上这个
-}
+type AppView = 'verify' | 'mic-check' | 'record' | 'complete';
 
 function App() {
+  // 分享链接 /play/:taskId 直接进入收听页
+  const [playTaskId] = useState<string | null>(() => getPlayTaskId());
   const [currentView, setCurrentView] = useState<AppView>('verify');
   const [taskId, setTaskId] = useState<string>('');
-  const [_orderInfo, setOrderInfo] = useState<OrderInfo | null>(null);
+  const [orderInfo, setOrderInfo] = useState<OrderInfo | null>(null);
   const [segments, setSegments] = useState<Segment[]>([]);
+  const [currentSegment, setCurrentSegment] = useState(0);
+  const [isRestoring, setIsRestoring] = useState(!playTaskId);
+
+  // 启动时恢复上次未完成的会话（刷新或微信回收页面后）
+  useEffect(() => {
+    if (playTaskId) return;
+
+    loadSession().then((session) => {
+      if (session && session.view !== 'verify') {
+        console.log('♻️ 恢复本地会话:', session.taskId, '第', session.currentSegment + 1, '段');
+        setTaskId(session.taskId);
+        setOrderInfo(session.orderInfo);
+        setCurrentSegment(session.currentSegment);
+        setSegments(session.segments.map((stored) => {
+          const segment = restoreSegmentStatus(stored);
+          return {
+            ...segment,
+            url: segment.blob ? URL.createObjectURL(segment.blob) : segment.uploadUrl,
+          };
+        }));
+        setCurrentView(session.view);
+      }
+      setIsRestoring(false);
+    });
+  }, [playTaskId]);
+
+  const template = orderInfo?.template ?? DEFAULT_TEMPLATE;
+
+  // 录音时已测得各段响度，播放时无需重新下载测量
+  const playerSegments = useMemo(
+    () => segments.map(segment => ({ ...segment, loudness: segment.quality?.lufs })),
+    [segments]
+  );
+
+  // 步骤指示：验证 → 每段录音 → 完成
+  const stepCount = template.segments.length + 2;
+  const activeStep = currentView === 'verify'
+    ? 0
+    : currentView === 'complete' ? stepCount - 1 : currentSegment + 1;
 
   // 验证成功回调
   const handleVerified = (newTaskId: string, info: OrderInfo) => {
     setTaskId(newTaskId);
     setOrderInfo(info);
-    setCurrentView('record');
+    setCurrentSegment(0);
+    setSegments([]);
+    // 录第一段前先检测麦克风；会话直接记为录音页，恢复时不再重复检测
+    setCurrentView('mic-check');
+    saveSession({ taskId: newTaskId, orderInfo: info, view: 'record', currentSegment: 0, segments: [] });
   };
 
   // 录制完成回调
   const handleRecordComplete = (recordedSegments: Segment[]) => {
     setSegments(recordedSegments);
     setCurrentView('complete');
+    saveSession({ view: 'complete' });
   };
 
   // 返回验证页
@@ -41,26 +84,44 @@ function App() {
     setTaskId('');
     setOrderInfo(null);
     setSegments([]);
+    clearSession();
   };
 
   // 重新开始
   const handleRestart = () => {
+    clearScriptDrafts(taskId);
     setCurrentView('verify');
     setTaskId('');
     setOrderInfo(null);
     setSegments([]);
+    clearSession();
   };
 
   // 渲染当前视图
   const renderView = () => {
+    if (playTaskId) {
+      return <PlayPage taskId={playTaskId} />;
+    }
+
+    if (isRestoring) {
+      return null;
+    }
+
     switch (currentView) {
       case 'verify':
         return <VerifyForm onVerified={handleVerified} />;
       
+      case 'mic-check':
+        return <MicCheck onComplete={() => setCurrentView('record')} />;
+
       case 'record':
         return (
           <Recorder
             taskId={taskId}
+            template={template}
+            initialSegments={segments.length > 0 ? segments : undefined}
+            initialSegment={currentSegment}
+            onSegmentChange={setCurrentSegment}
             onComplete={handleRecordComplete}
             onBack={handleBackToVerify}
           />
@@ -70,7 +131,8 @@ function App() {
         return (
           <Player
             taskId={taskId}
-            segments={segments}
+            template={template}
+            segments={playerSegments}
             onRestart={handleRestart}
           />
         );
@@ -91,13 +153,16 @@ function App() {
             </div>
             <span className="font-semibold text-gray-800">亲声胶囊</span>
           </div>
-          <div className="flex items-center gap-1">
-            <div className={`w-2 h-2 rounded-full ${currentView === 'verify' ? 'bg-orange-500' : 'bg-gray-300'}`} />
-            <div className="w-4 h-0.5 bg-gray-200" />
-            <div className={`w-2 h-2 rounded-full ${currentView === 'record' ? 'bg-orange-500' : 'bg-gray-300'}`} />
-            <div className="w-4 h-0.5 bg-gray-200" />
-            <div className={`w-2 h-2 rounded-full ${currentView === 'complete' ? 'bg-orange-500' : 'bg-gray-300'}`} />
-          </div>
+          {!playTaskId && (
+            <div className="flex items-center gap-1">
+              {Array.from({ length: stepCount }, (_, idx) => (
+                <React.Fragment key={idx}>
+                  {idx > 0 && <div className={`${idx === 1 || idx === stepCount - 1 ? 'w-4' : 'w-2'} h-0.5 bg-gray-200`} />}
+                  <div className={`w-2 h-2 rounded-full ${idx === activeStep ? 'bg-orange-500' : 'bg-gray-300'}`} />
+                </React.Fragment>
+              ))}
+            </div>
+          )}
         </div>
       </header>
 
@@ -0,0 +1,134 @@
+import React, { useRef, useEffect } from 'react';
+
+export type VisualizerStyle = 'bars' | 'waveform';
+
+interface AudioVisualizerProps {
+  analyserRef: React.RefObject<AnalyserNode | null>;
+  active: boolean;
+  variant?: VisualizerStyle;
+  className?: string;
+}
+
+const FRAME_INTERVAL = 1000 / 30; // 限制30帧，低端安卓机上也能保持流畅
+const BAR_COUNT = 24;
+const MAX_PIXEL_RATIO = 2; // 高分屏最多按2倍绘制，避免画布过大
+
+/**
+ * 实时音频可视化：读取 AnalyserNode 的频域/时域数据绘制柱状图或波形
+ * 页面隐藏（微信切后台）时停止绘制
+ */
+const AudioVisualizer: React.FC<AudioVisualizerProps> = ({
+  analyserRef,
+  active,
+  variant = 'bars',
+  className = '',
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const analyser = analyserRef.current;
+    if (!active || !canvas || !analyser) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    // 按实际显示尺寸设置画布分辨率
+    const ratio = Math.min(window.devicePixelRatio || 1, MAX_PIXEL_RATIO);
+    const width = canvas.clientWidth * ratio;
+    const height = canvas.clientHeight * ratio;
+    canvas.width = width;
+    canvas.height = height;
+
+    // 复用缓冲区，避免每帧分配内存
+    const frequencyData = new Uint8Array(analyser.frequencyBinCount);
+    const timeData = new Uint8Array(analyser.fftSize);
+    // 人声能量集中在低频段，只取前一半频点
+    const binsPerBar = Math.max(1, Math.floor(frequencyData.length / 2 / BAR_COUNT));
+
+    let rafId: number | null = null;
+    let lastFrame = 0;
+
+    const drawBars = () => {
+      analyser.getByteFrequencyData(frequencyData);
+      ctx.fillStyle = '#f97316';
+      const slot = width / BAR_COUNT;
+      const barWidth = slot * 0.6;
+
+      for (let i = 0; i < BAR_COUNT; i++) {
+        let sum = 0;
+        for (let j = 0; j < binsPerBar; j++) {
+          sum += frequencyData[i * binsPerBar + j];
+        }
+        const level = sum / binsPerBar / 255;
+        const barHeight = Math.max(height * 0.08, level * height * 0.9);
+        ctx.fillRect(i * slot + (slot - barWidth) / 2, (height - barHeight) / 2, barWidth, barHeight);
+      }
+    };
+
+    const drawWaveform = () => {
+      analyser.getByteTimeDomainData(timeData);
+      ctx.lineWidth = 2 * ratio;
+      ctx.strokeStyle = '#f97316';
+      ctx.beginPath();
+
+      const step = width / (timeData.length - 1);
+      for (let i = 0; i < timeData.length; i++) {
+        const y = (timeData[i] / 255) * height;
+        if (i === 0) {
+          ctx.moveTo(0, y);
+        } else {
+          ctx.lineTo(i * step, y);
+        }
+      }
+      ctx.stroke();
+    };
+
+    const draw = (timestamp: number) => {
+      rafId = requestAnimationFrame(draw);
+      if (timestamp - lastFrame < FRAME_INTERVAL) return;
+      lastFrame = timestamp;
+
+      ctx.clearRect(0, 0, width, height);
+      if (variant === 'waveform') {
+        drawWaveform();
+      } else {
+        drawBars();
+      }
+    };
+
+    const start = () => {
+      if (rafId === null && !document.hidden) {
+        rafId = requestAnimationFrame(draw);
+      }
+    };
+
+    const stop = () => {
+      if (rafId !== null) {
+        cancelAnimationFrame(rafId);
+        rafId = null;
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        stop();
+      } else {
+        start();
+      }
+    };
+
+    start();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      stop();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      ctx.clearRect(0, 0, width, height);
+    };
+  }, [active, variant, analyserRef]);
+
+  return <canvas ref={canvasRef} className={`w-full h-full ${className}`} />;
+};
+
+export default AudioVisualizer;
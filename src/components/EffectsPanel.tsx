@@ -0,0 +1,208 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Play, Pause, Wand2, Loader2 } from 'lucide-react';
+import { decodeToMono, encodeWav, MonoAudio } from '../utils/audio-buffer';
+import { applyEffects, hasEffects, VoiceEffects, VOICE_PRESETS } from '../utils/audio-effects';
+
+interface EffectsPanelProps {
+  blob: Blob;
+  url: string;
+  effects: VoiceEffects;
+  onChange: (effects: VoiceEffects) => void;
+}
+
+type Listening = 'original' | 'processed';
+
+const EFFECT_TOGGLES: { key: 'denoise' | 'highPass' | 'deEss'; name: string }[] = [
+  { key: 'denoise', name: '降噪' },
+  { key: 'highPass', name: '去低频' },
+  { key: 'deEss', name: '去齿音' },
+];
+
+/**
+ * 人声效果：选择降噪、滤波和音色，原声与处理后 A/B 对比试听
+ */
+const EffectsPanel: React.FC<EffectsPanelProps> = ({ blob, url, effects, onChange }) => {
+  const [audio, setAudio] = useState<MonoAudio | null>(null);
+  const [processedUrl, setProcessedUrl] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [listening, setListening] = useState<Listening>('processed');
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const originalRef = useRef<HTMLAudioElement>(null);
+  const processedRef = useRef<HTMLAudioElement>(null);
+
+  const enabled = hasEffects(effects);
+  const activeListening: Listening = enabled ? listening : 'original';
+
+  useEffect(() => {
+    let cancelled = false;
+    decodeToMono(blob)
+      .then((decoded) => {
+        if (!cancelled) setAudio(decoded);
+      })
+      .catch((err) => {
+        console.error('解码录音失败:', err);
+        if (!cancelled) setError('无法处理该录音，可直接上传原声');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [blob]);
+
+  // 设置变化后重新渲染处理后的试听音频
+  useEffect(() => {
+    if (!audio || !enabled) {
+      setProcessedUrl(null);
+      return;
+    }
+
+    let cancelled = false;
+    let createdUrl: string | null = null;
+    setIsProcessing(true);
+    applyEffects(audio, effects)
+      .then((processed) => {
+        if (cancelled) return;
+        createdUrl = URL.createObjectURL(encodeWav(processed.samples, processed.sampleRate));
+        setProcessedUrl(createdUrl);
+        setError(null);
+      })
+      .catch((err) => {
+        console.error('效果处理失败:', err);
+        if (!cancelled) setError('效果处理失败，可直接上传原声');
+      })
+      .finally(() => {
+        if (!cancelled) setIsProcessing(false);
+      });
+
+    return () => {
+      cancelled = true;
+      if (createdUrl) URL.revokeObjectURL(createdUrl);
+    };
+  }, [audio, effects, enabled]);
+
+  // 两个播放器同步播放状态
+  useEffect(() => {
+    const players = [originalRef.current, processedRef.current].filter(Boolean) as HTMLAudioElement[];
+    const handlePlay = () => setIsPlaying(true);
+    const handlePause = () => {
+      if (players.every(player => player.paused)) setIsPlaying(false);
+    };
+    players.forEach((player) => {
+      player.addEventListener('play', handlePlay);
+      player.addEventListener('pause', handlePause);
+    });
+    return () => {
+      players.forEach((player) => {
+        player.removeEventListener('play', handlePlay);
+        player.removeEventListener('pause', handlePause);
+      });
+    };
+  }, [processedUrl]);
+
+  const getPlayer = (which: Listening) => (which === 'original' ? originalRef.current : processedRef.current);
+
+  const togglePlay = () => {
+    const player = getPlayer(activeListening);
+    if (!player) return;
+    if (isPlaying) {
+      player.pause();
+    } else {
+      player.play();
+    }
+  };
+
+  // A/B 切换：从同一位置接着播放，便于对比
+  const handleSwitch = (next: Listening) => {
+    if (next === activeListening) return;
+    const from = getPlayer(activeListening);
+    const to = getPlayer(next);
+    setListening(next);
+    if (!from || !to) return;
+
+    const wasPlaying = !from.paused;
+    to.currentTime = from.currentTime;
+    from.pause();
+    if (wasPlaying) to.play();
+  };
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-1 rounded-full text-sm transition-colors ${
+      active ? 'bg-orange-500 text-white' : 'bg-white border border-gray-200 text-gray-600 hover:bg-gray-100'
+    }`;
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-4 mb-4">
+      <p className="text-sm text-gray-600 mb-3 flex items-center gap-2">
+        <Wand2 className="w-4 h-4" />
+        声音效果
+      </p>
+
+      <audio ref={originalRef} src={url} preload="auto" />
+      {processedUrl && <audio ref={processedRef} src={processedUrl} preload="auto" />}
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        {EFFECT_TOGGLES.map(({ key, name }) => (
+          <button
+            key={key}
+            onClick={() => onChange({ ...effects, [key]: !effects[key] })}
+            className={chipClass(effects[key])}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {VOICE_PRESETS.map((preset) => (
+          <button
+            key={preset.id}
+            onClick={() => onChange({ ...effects, preset: preset.id })}
+            className={chipClass(effects.preset === preset.id)}
+          >
+            {preset.name}
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={togglePlay}
+          disabled={isProcessing}
+          className="w-10 h-10 bg-white border border-gray-200 rounded-full flex items-center justify-center text-gray-700 hover:bg-gray-100 transition-colors disabled:opacity-50"
+        >
+          {isProcessing ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : isPlaying ? (
+            <Pause className="w-4 h-4" />
+          ) : (
+            <Play className="w-4 h-4" />
+          )}
+        </button>
+        <div className="flex flex-1 bg-white border border-gray-200 rounded-full p-1 text-sm">
+          <button
+            onClick={() => handleSwitch('original')}
+            className={`flex-1 py-1 rounded-full transition-colors ${
+              activeListening === 'original' ? 'bg-gray-700 text-white' : 'text-gray-600'
+            }`}
+          >
+            A 原声
+          </button>
+          <button
+            onClick={() => handleSwitch('processed')}
+            disabled={!processedUrl || isProcessing}
+            className={`flex-1 py-1 rounded-full transition-colors disabled:opacity-50 ${
+              activeListening === 'processed' ? 'bg-orange-500 text-white' : 'text-gray-600'
+            }`}
+          >
+            B 处理后
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EffectsPanel;
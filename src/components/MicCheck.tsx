@@ -0,0 +1,277 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { Mic, CheckCircle, AlertTriangle, AlertCircle, RotateCcw, ChevronRight, Loader2 } from 'lucide-react';
+import RecordRTC from 'recordrtc';
+import AudioVisualizer from './AudioVisualizer';
+import {
+  getAudioConstraints,
+  getMicErrorMessage,
+  getPreferredMicId,
+  setPreferredMicId,
+  listMicrophones,
+  sampleLevels,
+  evaluateMicCheck,
+  MicCheckResult,
+  NOISE_SAMPLE_MS,
+  TEST_CLIP_MS,
+} from '../utils/mic-check';
+
+interface MicCheckProps {
+  onComplete: () => void;
+}
+
+type CheckPhase = 'intro' | 'requesting' | 'noise' | 'voice' | 'done' | 'error';
+
+const TEST_PHRASE = '你好，这是我的声音胶囊';
+
+/**
+ * 录音前检测麦克风：申请权限、选择设备、测量底噪与试音音量，可回放3秒试音
+ */
+const MicCheck: React.FC<MicCheckProps> = ({ onComplete }) => {
+  const [phase, setPhase] = useState<CheckPhase>('intro');
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState<string | null>(() => getPreferredMicId());
+  const [result, setResult] = useState<MicCheckResult | null>(null);
+  const [clipUrl, setClipUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const analyserRef = useRef<AnalyserNode | null>(null);
+  const runIdRef = useRef(0); // 切换设备或卸载后丢弃旧的检测结果
+
+  const releaseStream = useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
+      audioContextRef.current.close();
+    }
+    audioContextRef.current = null;
+    analyserRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      runIdRef.current++;
+      releaseStream();
+    };
+  }, [releaseStream]);
+
+  useEffect(() => {
+    return () => {
+      if (clipUrl) URL.revokeObjectURL(clipUrl);
+    };
+  }, [clipUrl]);
+
+  const runCheck = useCallback(async (selectedId: string | null) => {
+    const runId = ++runIdRef.current;
+    releaseStream();
+    setResult(null);
+    setClipUrl(null);
+    setError(null);
+    setPhase('requesting');
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: getAudioConstraints(selectedId) });
+      if (runId !== runIdRef.current) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      streamRef.current = stream;
+
+      // 获得权限后才能拿到设备名称
+      setDevices(await listMicrophones());
+      const actualId = stream.getAudioTracks()[0]?.getSettings().deviceId || selectedId;
+      setDeviceId(actualId);
+
+      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+      const source = audioContextRef.current.createMediaStreamSource(stream);
+      analyserRef.current = audioContextRef.current.createAnalyser();
+      analyserRef.current.fftSize = 2048;
+      source.connect(analyserRef.current);
+
+      // 1. 保持安静，测量环境底噪
+      setPhase('noise');
+      const noiseLevels = await sampleLevels(analyserRef.current, NOISE_SAMPLE_MS);
+      if (runId !== runIdRef.current) return;
+
+      // 2. 念一句试音，同时录下来供回放
+      setPhase('voice');
+      const recorder = new RecordRTC(stream, {
+        type: 'audio',
+        mimeType: 'audio/webm',
+        recorderType: RecordRTC.StereoAudioRecorder,
+        numberOfAudioChannels: 1,
+        desiredSampRate: 44100,
+        disableLogs: true,
+      });
+      recorder.startRecording();
+      const voiceLevels = await sampleLevels(analyserRef.current, TEST_CLIP_MS);
+      const clip = await new Promise<Blob>((resolve) => {
+        recorder.stopRecording(() => resolve(recorder.getBlob()));
+      });
+      if (runId !== runIdRef.current) return;
+
+      releaseStream();
+      setClipUrl(URL.createObjectURL(clip));
+      setResult(evaluateMicCheck(noiseLevels, voiceLevels));
+      setPhase('done');
+    } catch (err) {
+      console.error('麦克风检测失败:', err);
+      if (runId !== runIdRef.current) return;
+      releaseStream();
+      setError(getMicErrorMessage(err));
+      setPhase('error');
+    }
+  }, [releaseStream]);
+
+  const handleDeviceChange = (id: string) => {
+    setPreferredMicId(id);
+    runCheck(id);
+  };
+
+  const isMeasuring = phase === 'requesting' || phase === 'noise' || phase === 'voice';
+
+  return (
+    <div className="max-w-md mx-auto px-4 py-6">
+      {/* 标题 */}
+      <div className="text-center mb-6">
+        <h2 className="text-2xl font-bold text-gray-800">录音前检测</h2>
+        <p className="text-gray-500 mt-1">检查麦克风和周围环境，录音效果更好</p>
+      </div>
+
+      <div className="bg-white rounded-3xl shadow-xl p-6 mb-6">
+        {/* 麦克风选择（有多个输入设备时显示） */}
+        {devices.length > 1 && (
+          <label className="block mb-4">
+            <span className="text-sm text-gray-600">麦克风</span>
+            <select
+              value={deviceId || ''}
+              onChange={(e) => handleDeviceChange(e.target.value)}
+              disabled={isMeasuring}
+              className="mt-1 w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 outline-none disabled:opacity-50"
+            >
+              {devices.map((device, idx) => (
+                <option key={device.deviceId} value={device.deviceId}>
+                  {device.label || `麦克风 ${idx + 1}`}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {/* 实时音量 */}
+        <div className="h-16 mb-4">
+          {isMeasuring && phase !== 'requesting' ? (
+            <AudioVisualizer analyserRef={analyserRef} active={isMeasuring} />
+          ) : (
+            <div className="flex items-center justify-center h-full text-gray-400">
+              <Mic className="w-6 h-6" />
+            </div>
+          )}
+        </div>
+
+        {/* 检测步骤 */}
+        <div className="text-center mb-6 min-h-[3rem]">
+          {phase === 'intro' && (
+            <p className="text-gray-600">先花5秒钟检测一下麦克风吧</p>
+          )}
+          {phase === 'requesting' && (
+            <p className="text-gray-600 flex items-center justify-center gap-2">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              正在请求麦克风权限...
+            </p>
+          )}
+          {phase === 'noise' && (
+            <p className="text-gray-600">请保持安静，正在测量环境噪音...</p>
+          )}
+          {phase === 'voice' && (
+            <p className="text-gray-600">
+              请正常音量说：
+              <span className="block text-lg font-medium text-orange-600 mt-1">"{TEST_PHRASE}"</span>
+            </p>
+          )}
+          {phase === 'error' && (
+            <div className="bg-red-50 border border-red-200 rounded-xl p-4 flex items-start gap-3 text-left">
+              <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+              <p className="text-red-600 text-sm">{error}</p>
+            </div>
+          )}
+          {phase === 'done' && result && (
+            result.verdict === 'pass' ? (
+              <div className="bg-green-50 border border-green-200 rounded-xl p-4 flex items-start gap-3 text-left">
+                <CheckCircle className="w-5 h-5 text-green-500 flex-shrink-0 mt-0.5" />
+                <div>
+                  <p className="text-green-700 font-medium">麦克风状态良好</p>
+                  <p className="text-green-600 text-xs mt-1">
+                    环境噪音 {result.noiseDb} dB，说话音量 {result.voiceDb} dB
+                  </p>
+                </div>
+              </div>
+            ) : (
+              <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 flex items-start gap-3 text-left">
+                <AlertTriangle className="w-5 h-5 text-amber-500 flex-shrink-0 mt-0.5" />
+                <div>
+                  {result.warnings.map((warning) => (
+                    <p key={warning} className="text-amber-700 text-sm">{warning}</p>
+                  ))}
+                  <p className="text-amber-600 text-xs mt-1">
+                    环境噪音 {result.noiseDb} dB，说话音量 {result.voiceDb} dB
+                  </p>
+                </div>
+              </div>
+            )
+          )}
+        </div>
+
+        {/* 回放试音 */}
+        {phase === 'done' && clipUrl && (
+          <div className="bg-gray-50 rounded-xl p-4 mb-6">
+            <p className="text-sm text-gray-600 mb-2">听听刚才的试音：</p>
+            <audio src={clipUrl} controls className="w-full" />
+          </div>
+        )}
+
+        {/* 操作按钮 */}
+        {phase === 'intro' ? (
+          <button
+            onClick={() => runCheck(deviceId)}
+            className="w-full py-3 bg-orange-500 text-white rounded-xl font-medium flex items-center justify-center gap-2 hover:bg-orange-600 transition-colors"
+          >
+            <Mic className="w-5 h-5" />
+            开始检测
+          </button>
+        ) : (phase === 'done' || phase === 'error') && (
+          <div className="flex gap-4">
+            <button
+              onClick={() => runCheck(deviceId)}
+              className="flex-1 py-3 border border-gray-300 text-gray-700 rounded-xl font-medium flex items-center justify-center gap-2 hover:bg-gray-50 transition-colors"
+            >
+              <RotateCcw className="w-5 h-5" />
+              重新检测
+            </button>
+            {phase === 'done' && (
+              <button
+                onClick={onComplete}
+                className="flex-1 py-3 bg-orange-500 text-white rounded-xl font-medium flex items-center justify-center gap-2 hover:bg-orange-600 transition-colors"
+              >
+                开始录音
+                <ChevronRight className="w-5 h-5" />
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {!isMeasuring && phase !== 'done' && (
+        <button
+          onClick={onComplete}
+          className="w-full text-sm text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          跳过检测，直接录音
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default MicCheck;
@@ -0,0 +1,104 @@
+import React, { useState, useRef } from 'react';
+import { Music, Upload, Loader2 } from 'lucide-react';
+import { BUNDLED_TRACKS } from '../utils/music-tracks';
+import { MusicSettings, DEFAULT_MUSIC_LEVEL } from '../utils/background-music';
+import { uploadMusicFile } from '../utils/cos-upload';
+
+interface MusicPickerProps {
+  taskId: string;
+  music: MusicSettings | null;
+  onChange: (music: MusicSettings | null) => void;
+}
+
+const MAX_FILE_SIZE = 20 * 1024 * 1024; // 本地音乐最大20MB
+
+/**
+ * 背景音乐选择：内置曲目或本地文件，调节音乐与人声的比例
+ */
+const MusicPicker: React.FC<MusicPickerProps> = ({ taskId, music, onChange }) => {
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const level = music?.level ?? DEFAULT_MUSIC_LEVEL;
+  const selectedId = !music ? 'none' : music.source.type === 'bundled' ? music.source.trackId : 'file';
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (file.size > MAX_FILE_SIZE) {
+      setError('音乐文件不能超过20MB');
+      return;
+    }
+
+    setIsUploading(true);
+    setError(null);
+    const result = await uploadMusicFile(file, taskId);
+    setIsUploading(false);
+
+    if (result.success && result.url) {
+      onChange({ source: { type: 'file', url: result.url, name: file.name }, level });
+    } else {
+      setError(result.error || '上传失败，请重试');
+    }
+  };
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-1 rounded-full text-sm transition-colors ${
+      active ? 'bg-orange-500 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+    }`;
+
+  return (
+    <div className="bg-white rounded-3xl shadow-xl p-6 mb-6">
+      <p className="text-sm font-medium text-gray-700 mb-3 flex items-center gap-2">
+        <Music className="w-4 h-4" />
+        背景音乐
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <button onClick={() => onChange(null)} className={chipClass(selectedId === 'none')}>
+          无
+        </button>
+        {BUNDLED_TRACKS.map((track) => (
+          <button
+            key={track.id}
+            onClick={() => onChange({ source: { type: 'bundled', trackId: track.id }, level })}
+            className={chipClass(selectedId === track.id)}
+          >
+            {track.name}
+          </button>
+        ))}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isUploading}
+          className={`${chipClass(selectedId === 'file')} flex items-center gap-1 disabled:opacity-50`}
+        >
+          {isUploading ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />}
+          {music?.source.type === 'file' ? music.source.name : '本地音乐'}
+        </button>
+        <input ref={fileInputRef} type="file" accept="audio/*" onChange={handleFileChange} className="hidden" />
+      </div>
+
+      {music && (
+        <label className="flex items-center gap-3 text-xs text-gray-500">
+          <span>人声</span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={level}
+            onChange={(e) => onChange({ ...music, level: Number(e.target.value) })}
+            className="flex-1 accent-orange-500"
+          />
+          <span>音乐</span>
+        </label>
+      )}
+
+      {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+    </div>
+  );
+};
+
+export default MusicPicker;
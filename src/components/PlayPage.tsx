@@ -0,0 +1,80 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Gift, AlertCircle, Loader2, RefreshCw } from 'lucide-react';
+import Player from './Player';
+import { fetchCapsule, CapsuleSegment } from '../utils/capsule-api';
+import { CapsuleTemplate } from '../utils/capsule-template';
+import { MusicSettings } from '../utils/background-music';
+
+interface PlayPageProps {
+  taskId: string;
+}
+
+/**
+ * 收礼人收听页：通过分享链接 /play/:taskId 打开
+ */
+const PlayPage: React.FC<PlayPageProps> = ({ taskId }) => {
+  const [segments, setSegments] = useState<CapsuleSegment[]>([]);
+  const [template, setTemplate] = useState<CapsuleTemplate | undefined>(undefined);
+  const [music, setMusic] = useState<MusicSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCapsule = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const result = await fetchCapsule(taskId);
+    if (result.success && result.segments && result.segments.length > 0) {
+      setSegments(result.segments);
+      setTemplate(result.template);
+      setMusic(result.music ?? null);
+    } else {
+      setError(result.error || '声音胶囊还没有制作完成');
+    }
+
+    setIsLoading(false);
+  }, [taskId]);
+
+  useEffect(() => {
+    loadCapsule();
+  }, [loadCapsule]);
+
+  if (isLoading) {
+    return (
+      <div className="max-w-md mx-auto px-4 py-16 text-center">
+        <Loader2 className="w-10 h-10 text-orange-500 animate-spin mx-auto" />
+        <p className="text-gray-500 mt-4">正在打开声音礼物...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="max-w-md mx-auto px-4 py-12">
+        <div className="text-center mb-6">
+          <div className="w-16 h-16 bg-gradient-to-br from-pink-400 to-orange-500 rounded-full mx-auto mb-4 flex items-center justify-center shadow-lg">
+            <Gift className="w-8 h-8 text-white" />
+          </div>
+          <h2 className="text-2xl font-bold text-gray-800">声音胶囊</h2>
+        </div>
+
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4 mb-6 flex items-start gap-3">
+          <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+
+        <button
+          onClick={loadCapsule}
+          className="w-full py-3 bg-orange-500 text-white rounded-xl font-medium flex items-center justify-center gap-2 hover:bg-orange-600 transition-colors"
+        >
+          <RefreshCw className="w-4 h-4" />
+          重新加载
+        </button>
+      </div>
+    );
+  }
+
+  return <Player taskId={taskId} segments={segments} template={template} music={music} readOnly />;
+};
+
+export default PlayPage;
@@ -1,97 +1,91 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Play, Pause, Heart, Share2, Gift, Download, RefreshCw, QrCode } from 'lucide-react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Play, Pause, Heart, Share2, Gift, Download, RefreshCw, QrCode, FileAudio, Loader2 } from 'lucide-react';
 import { QRCodeSVG } from 'qrcode.react';
-
-interface Segment {
-  id: number;
-  uploadUrl: string | null;
-}
+import { useCapsulePlayback } from '../hooks/useCapsulePlayback';
+import MusicPicker from './MusicPicker';
+import { getAudioExtension } from '../utils/audio-encoder';
+import { exportCapsule, CapsuleExportResult } from '../utils/capsule-export';
+import { CapsuleTemplate, DEFAULT_TEMPLATE, THEME_STYLES } from '../utils/capsule-template';
+import { MusicSettings, saveMusicSettings, loadLocalMusicSettings } from '../utils/background-music';
+import type { PlayableSegment } from '../utils/segment-state';
 
 interface PlayerProps {
   taskId: string;
-  segments: Segment[];
-  onRestart: () => void;
+  segments: PlayableSegment[];
+  template?: CapsuleTemplate;
+  music?: MusicSettings | null; // 任务保存的背景音乐
+  onRestart?: () => void;
+  readOnly?: boolean; // 收礼人模式：隐藏重新制作、下载等管理操作
 }
 
-const Player: React.FC<PlayerProps> = ({ taskId, segments, onRestart }) => {
-  const [currentSegment, setCurrentSegment] = useState(0);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [progress, setProgress] = useState(0);
-  const [duration, setDuration] = useState(0);
+const COMPRESSOR_SETTING_KEY = 'voice-capsule:player-compressor';
+const MUSIC_SAVE_DELAY = 800; // 拖动音量时停下来再保存
+
+const Player: React.FC<PlayerProps> = ({
+  taskId,
+  segments,
+  template = DEFAULT_TEMPLATE,
+  music: initialMusic,
+  onRestart,
+  readOnly = false,
+}) => {
+  const theme = THEME_STYLES[template.theme];
+  const getSegmentTitle = (idx: number) => template.segments[idx]?.prompt || `第${idx + 1}段`;
   const [showQR, setShowQR] = useState(false);
   const [isLiked, setIsLiked] = useState(false);
-  
-  const audioRef = useRef<HTMLAudioElement>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exported, setExported] = useState<CapsuleExportResult | null>(null);
+  const [compressorEnabled, setCompressorEnabled] = useState(() => localStorage.getItem(COMPRESSOR_SETTING_KEY) === '1');
+  const [music, setMusic] = useState<MusicSettings | null>(() =>
+    initialMusic !== undefined ? initialMusic : loadLocalMusicSettings(taskId)
+  );
+  const musicChangedRef = useRef(false);
+
+  // 各段首尾相接连续播放，使用同一条时间轴
+  const playbackSegments = useMemo(
+    () => segments.map(segment => ({ url: segment.uploadUrl, loudness: segment.loudness })),
+    [segments]
+  );
+  const playback = useCapsulePlayback(playbackSegments, compressorEnabled, music);
+  const currentSegment = playback.currentIndex;
   const currentUrl = segments[currentSegment]?.uploadUrl;
+
+  // 制作人修改背景音乐后保存到任务
+  useEffect(() => {
+    if (!musicChangedRef.current) return;
+    const timer = setTimeout(() => saveMusicSettings(taskId, music), MUSIC_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [taskId, music]);
+
+  const handleMusicChange = (next: MusicSettings | null) => {
+    musicChangedRef.current = true;
+    setMusic(next);
+    setExported(null); // 已导出的文件不含新的背景音乐
+  };
+
+  const handleToggleCompressor = (enabled: boolean) => {
+    setCompressorEnabled(enabled);
+    localStorage.setItem(COMPRESSOR_SETTING_KEY, enabled ? '1' : '0');
+  };
   const shareUrl = `${window.location.origin}/play/${taskId}`;
 
   // 播放控制
   const togglePlay = () => {
-    if (audioRef.current) {
-      if (isPlaying) {
-        audioRef.current.pause();
-      } else {
-        audioRef.current.play();
-      }
+    if (playback.isPlaying) {
+      playback.pause();
+    } else {
+      playback.play();
     }
   };
 
-  // 切换段落
+  // 跳到某一段的开头
   const handleSegmentChange = (index: number) => {
-    if (index !== currentSegment) {
-      setCurrentSegment(index);
-      setIsPlaying(false);
-      setProgress(0);
+    const chapter = playback.chapters[index];
+    if (chapter) {
+      playback.seek(chapter.start);
     }
   };
 
-  // 音频事件监听
-  useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
-
-    const handleTimeUpdate = () => {
-      setProgress(audio.currentTime);
-      setDuration(audio.duration || 0);
-    };
-
-    const handleEnded = () => {
-      setIsPlaying(false);
-      // 自动播放下一段
-      if (currentSegment < segments.length - 1) {
-        setTimeout(() => {
-          setCurrentSegment(prev => prev + 1);
-          setTimeout(() => {
-            audio.play();
-          }, 100);
-        }, 500);
-      }
-    };
-
-    const handlePlay = () => setIsPlaying(true);
-    const handlePause = () => setIsPlaying(false);
-
-    audio.addEventListener('timeupdate', handleTimeUpdate);
-    audio.addEventListener('ended', handleEnded);
-    audio.addEventListener('play', handlePlay);
-    audio.addEventListener('pause', handlePause);
-
-    return () => {
-      audio.removeEventListener('timeupdate', handleTimeUpdate);
-      audio.removeEventListener('ended', handleEnded);
-      audio.removeEventListener('play', handlePlay);
-      audio.removeEventListener('pause', handlePause);
-    };
-  }, [currentSegment, segments.length]);
-
-  // 当段落改变时自动播放
-  useEffect(() => {
-    if (audioRef.current && currentUrl) {
-      audioRef.current.src = currentUrl;
-      audioRef.current.load();
-    }
-  }, [currentSegment, currentUrl]);
-
   // 格式化时间
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -132,7 +126,7 @@ const Player: React.FC<PlayerProps> = ({ taskId, segments, onRestart }) => {
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `声音胶囊_第${currentSegment + 1}段.mp3`;
+      a.download = `${theme.title}_第${currentSegment + 1}段.${getAudioExtension(blob.type)}`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -142,15 +136,67 @@ const Player: React.FC<PlayerProps> = ({ taskId, segments, onRestart }) => {
     }
   };
 
+  // 导出完整胶囊（三段合并为一个文件）
+  const handleExport = async () => {
+    // 章节名随段一起筛选，跳过未上传的段后仍与音频对应
+    const tracks = segments.flatMap((segment, idx) =>
+      segment.uploadUrl ? [{ url: segment.uploadUrl, title: getSegmentTitle(idx) }] : []
+    );
+    if (tracks.length === 0) return;
+
+    setIsExporting(true);
+    try {
+      const result = await exportCapsule(tracks, {
+        title: `${theme.title}_${taskId}`,
+        music,
+      });
+      setExported(result);
+    } catch (err) {
+      console.error('导出失败:', err);
+      alert('导出失败，请重试');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // 保存导出的文件
+  const handleSaveExported = () => {
+    if (!exported) return;
+    const url = window.URL.createObjectURL(exported.blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = exported.fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    window.URL.revokeObjectURL(url);
+  };
+
+  // 通过系统分享发送导出的文件
+  const exportedFile = exported ? new File([exported.blob], exported.fileName, { type: exported.blob.type }) : null;
+  const canShareFile = !!exportedFile && !!navigator.canShare && navigator.canShare({ files: [exportedFile] });
+
+  const handleShareExported = async () => {
+    if (!exportedFile) return;
+    try {
+      await navigator.share({
+        title: '亲声胶囊 - 一份特别的声音礼物',
+        files: [exportedFile],
+      });
+    } catch (err) {
+      console.log('分享取消');
+    }
+  };
+
   return (
     <div className="max-w-md mx-auto px-4 py-6">
       {/* 标题 */}
       <div className="text-center mb-6">
-        <div className="w-16 h-16 bg-gradient-to-br from-pink-400 to-orange-500 rounded-full mx-auto mb-4 flex items-center justify-center shadow-lg">
+        <div className={`w-16 h-16 bg-gradient-to-br ${theme.gradient} rounded-full mx-auto mb-4 flex items-center justify-center shadow-lg`}>
           <Gift className="w-8 h-8 text-white" />
         </div>
-        <h2 className="text-2xl font-bold text-gray-800">声音胶囊</h2>
-        <p className="text-gray-500 mt-1">一份特别的声音礼物</p>
+        <h2 className="text-2xl font-bold text-gray-800">{theme.title}</h2>
+        <p className="text-gray-500 mt-1">{theme.subtitle}</p>
       </div>
 
       {/* 播放器卡片 */}
@@ -161,10 +207,11 @@ const Player: React.FC<PlayerProps> = ({ taskId, segments, onRestart }) => {
             <button
               key={segment.id}
               onClick={() => handleSegmentChange(idx)}
+              disabled={!playback.chapters[idx]}
               className={`px-4 py-2 rounded-full text-sm font-medium transition-all ${
                 idx === currentSegment
                   ? 'bg-orange-500 text-white'
-                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200 disabled:opacity-50'
               }`}
             >
               第{idx + 1}段
@@ -175,27 +222,40 @@ const Player: React.FC<PlayerProps> = ({ taskId, segments, onRestart }) => {
         {/* 段落标题 */}
         <div className="text-center mb-6">
           <p className="text-lg font-medium text-gray-700">
-            {currentSegment === 0 && '想对TA说的话'}
-            {currentSegment === 1 && '你们的故事'}
-            {currentSegment === 2 && '祝福与期待'}
+            {getSegmentTitle(currentSegment)}
           </p>
         </div>
 
-        {/* 音频元素 */}
-        <audio ref={audioRef} preload="metadata" />
-
-        {/* 进度条 */}
+        {/* 整条时间轴：可拖动，竖线标记每段的开头 */}
         <div className="mb-6">
-          <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
-            <div
-              className="h-full bg-gradient-to-r from-orange-400 to-orange-600 transition-all duration-100"
-              style={{ width: `${duration ? (progress / duration) * 100 : 0}%` }}
+          <div className="relative">
+            <input
+              type="range"
+              min={0}
+              max={playback.duration || 0}
+              step={0.1}
+              value={Math.min(playback.currentTime, playback.duration)}
+              onChange={(e) => playback.seek(Number(e.target.value))}
+              disabled={!playback.duration}
+              className="w-full accent-orange-500"
             />
+            {playback.chapters.slice(1).map((chapter) => (
+              <div
+                key={chapter.start}
+                className="absolute top-0 bottom-0 w-0.5 bg-orange-200 pointer-events-none"
+                style={{ left: `${(chapter.start / playback.duration) * 100}%` }}
+              />
+            ))}
           </div>
           <div className="flex justify-between text-xs text-gray-400 mt-2">
-            <span>{formatTime(progress)}</span>
-            <span>{formatTime(duration)}</span>
+            <span>{formatTime(playback.currentTime)}</span>
+            <span>
+              {playback.isPlaying && playback.isBuffering ? '加载中...' : formatTime(playback.duration)}
+            </span>
           </div>
+          {playback.error && (
+            <p className="text-xs text-red-500 text-center mt-2">{playback.error}</p>
+          )}
         </div>
 
         {/* 播放控制 */}
@@ -211,26 +271,46 @@ const Player: React.FC<PlayerProps> = ({ taskId, segments, onRestart }) => {
 
           <button
             onClick={togglePlay}
-            disabled={!currentUrl}
+            disabled={!segments.some(segment => segment.uploadUrl)}
             className="w-20 h-20 bg-gradient-to-r from-orange-500 to-orange-600 rounded-full flex items-center justify-center text-white shadow-lg hover:shadow-xl hover:scale-105 active:scale-95 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            {isPlaying ? (
+            {playback.isPlaying && playback.isBuffering ? (
+              <Loader2 className="w-8 h-8 animate-spin" />
+            ) : playback.isPlaying ? (
               <Pause className="w-8 h-8 fill-current" />
             ) : (
               <Play className="w-8 h-8 fill-current ml-1" />
             )}
           </button>
 
-          <button
-            onClick={handleDownload}
-            disabled={!currentUrl}
-            className="w-12 h-12 bg-gray-100 rounded-full flex items-center justify-center text-gray-600 hover:bg-gray-200 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            <Download className="w-5 h-5" />
-          </button>
+          {!readOnly && (
+            <button
+              onClick={handleDownload}
+              disabled={!currentUrl}
+              className="w-12 h-12 bg-gray-100 rounded-full flex items-center justify-center text-gray-600 hover:bg-gray-200 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download className="w-5 h-5" />
+            </button>
+          )}
         </div>
+
+        {/* 动态压缩开关 */}
+        <label className="flex items-center justify-center gap-2 text-sm text-gray-500 mt-6">
+          <input
+            type="checkbox"
+            checked={compressorEnabled}
+            onChange={(e) => handleToggleCompressor(e.target.checked)}
+            className="accent-orange-500"
+          />
+          柔和压缩（让轻声更清楚）
+        </label>
       </div>
 
+      {/* 背景音乐 */}
+      {!readOnly && (
+        <MusicPicker taskId={taskId} music={music} onChange={handleMusicChange} />
+      )}
+
       {/* 操作按钮 */}
       <div className="grid grid-cols-2 gap-4 mb-6">
         <button
@@ -249,6 +329,46 @@ const Player: React.FC<PlayerProps> = ({ taskId, segments, onRestart }) => {
         </button>
       </div>
 
+      {/* 导出完整胶囊 */}
+      {exported ? (
+        <div className={`grid ${canShareFile ? 'grid-cols-2' : 'grid-cols-1'} gap-4 mb-6`}>
+          <button
+            onClick={handleSaveExported}
+            className="py-3 bg-orange-500 text-white rounded-xl font-medium flex items-center justify-center gap-2 hover:bg-orange-600 transition-colors"
+          >
+            <Download className="w-5 h-5" />
+            保存完整胶囊
+          </button>
+          {canShareFile && (
+            <button
+              onClick={handleShareExported}
+              className="py-3 bg-white border border-gray-200 rounded-xl font-medium text-gray-700 flex items-center justify-center gap-2 hover:bg-gray-50 transition-colors"
+            >
+              <Share2 className="w-5 h-5" />
+              发送文件
+            </button>
+          )}
+        </div>
+      ) : (
+        <button
+          onClick={handleExport}
+          disabled={isExporting || segments.every(s => !s.uploadUrl)}
+          className="w-full py-3 mb-6 bg-white border border-gray-200 rounded-xl font-medium text-gray-700 flex items-center justify-center gap-2 hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isExporting ? (
+            <>
+              <Loader2 className="w-5 h-5 animate-spin" />
+              正在合成...
+            </>
+          ) : (
+            <>
+              <FileAudio className="w-5 h-5" />
+              导出完整胶囊
+            </>
+          )}
+        </button>
+      )}
+
       {/* 二维码 */}
       {showQR && (
         <div className="bg-white rounded-2xl p-6 shadow-lg mb-6 text-center">
@@ -272,18 +392,22 @@ const Player: React.FC<PlayerProps> = ({ taskId, segments, onRestart }) => {
       )}
 
       {/* 重新制作 */}
-      <button
-        onClick={onRestart}
-        className="w-full py-3 text-gray-500 flex items-center justify-center gap-2 hover:text-orange-500 transition-colors"
-      >
-        <RefreshCw className="w-4 h-4" />
-        制作新的声音胶囊
-      </button>
+      {!readOnly && onRestart && (
+        <button
+          onClick={onRestart}
+          className="w-full py-3 text-gray-500 flex items-center justify-center gap-2 hover:text-orange-500 transition-colors"
+        >
+          <RefreshCw className="w-4 h-4" />
+          制作新的声音胶囊
+        </button>
+      )}
 
       {/* 提示信息 */}
       <div className="mt-8 p-4 bg-orange-50 rounded-xl">
         <p className="text-sm text-orange-700 text-center">
-          这份声音礼物已保存，随时可以通过链接收听
+          {readOnly
+            ? '有人为你录下了这份声音礼物，戴上耳机慢慢听吧'
+            : '这份声音礼物已保存，随时可以通过链接收听'}
         </p>
       </div>
     </div>
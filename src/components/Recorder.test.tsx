@@ -0,0 +1,319 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import Recorder from './Recorder';
+import { installMediaFakes } from '../test/media';
+import { useFakeClock, advance } from '../test/clock';
+import { CapsuleTemplate } from '../utils/capsule-template';
+import { uploadAudioSegment } from '../utils/cos-upload';
+import { enqueueUpload, onQueuedUploadComplete, removeQueuedUpload, QueuedUploadResult } from '../utils/upload-queue';
+import { createSegments, SegmentStatus } from '../utils/segment-state';
+import { restoreSegmentStatus } from '../utils/session-store';
+import { encodeWav } from '../utils/audio-buffer';
+
+vi.mock('../utils/cos-upload', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/cos-upload')>()),
+  uploadAudioSegment: vi.fn(),
+}));
+
+vi.mock('../utils/upload-queue', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/upload-queue')>()),
+  enqueueUpload: vi.fn(async () => false),
+  removeQueuedUpload: vi.fn(async () => {}),
+  getCompletedUploads: vi.fn(async () => []),
+  onQueuedUploadComplete: vi.fn(() => () => {}),
+  flushUploadQueue: vi.fn(async () => {}),
+}));
+
+// MP3 编码依赖 Worker，测试中直接上传原始 WAV
+vi.mock('../utils/audio-encoder', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/audio-encoder')>()),
+  encodeAudio: vi.fn(async (blob: Blob) => blob),
+}));
+
+vi.mock('../utils/audio-quality', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/audio-quality')>()),
+  analyzeBlob: vi.fn(async () => null),
+}));
+
+vi.mock('../utils/session-store', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/session-store')>()),
+  saveSession: vi.fn(async () => {}),
+}));
+
+const TEMPLATE: CapsuleTemplate = {
+  id: 'test',
+  name: '测试',
+  theme: 'default',
+  segments: [
+    { prompt: '第一段', maxDuration: 3, minDuration: 0 },
+    { prompt: '第二段', maxDuration: 3, minDuration: 0 },
+  ],
+};
+
+const uploadMock = vi.mocked(uploadAudioSegment);
+const enqueueMock = vi.mocked(enqueueUpload);
+const removeQueuedMock = vi.mocked(removeQueuedUpload);
+const onQueuedCompleteMock = vi.mocked(onQueuedUploadComplete);
+
+function renderRecorder() {
+  const view = render(
+    <Recorder taskId="task-1" template={TEMPLATE} onComplete={vi.fn()} onBack={vi.fn()} />
+  );
+  const recordButton = view.container.querySelector('button.w-24') as HTMLButtonElement;
+  return { ...view, recordButton };
+}
+
+// 按住录音按钮 ms 毫秒后松开（含 500ms 防误触延迟）
+async function holdToRecord(recordButton: HTMLButtonElement, ms: number) {
+  fireEvent.touchStart(recordButton);
+  await advance(500);
+  await advance(ms);
+  fireEvent.touchEnd(recordButton);
+  await advance(100);
+}
+
+describe('Recorder', () => {
+  let getUserMedia: ReturnType<typeof installMediaFakes>['getUserMedia'];
+
+  beforeEach(() => {
+    useFakeClock();
+    ({ getUserMedia } = installMediaFakes());
+    vi.stubGlobal('alert', vi.fn());
+    uploadMock.mockReset();
+    enqueueMock.mockReset();
+    removeQueuedMock.mockClear();
+    onQueuedCompleteMock.mockImplementation(() => () => {});
+    enqueueMock.mockResolvedValue(false);
+  });
+
+  it('按住录音，松开后上传本段', async () => {
+    uploadMock.mockResolvedValue({ success: true, url: 'https://cos.example/0.wav' });
+    const { recordButton } = renderRecorder();
+
+    fireEvent.touchStart(recordButton);
+    await advance(500);
+    expect(getUserMedia).toHaveBeenCalledTimes(1);
+    expect(screen.getByText('正在录音...')).toBeTruthy();
+
+    await advance(1500);
+    fireEvent.touchEnd(recordButton);
+    await advance(100);
+
+    expect(uploadMock).toHaveBeenCalledTimes(1);
+    const [blob, taskId, segmentIndex] = uploadMock.mock.calls[0];
+    expect(blob.type).toBe('audio/wav');
+    expect(taskId).toBe('task-1');
+    expect(segmentIndex).toBe(0);
+    expect(screen.getByText('上传成功！')).toBeTruthy();
+  });
+
+  it('选择上传文字稿时，提词稿作为表单字段随音频提交', async () => {
+    uploadMock.mockResolvedValue({ success: true, url: 'https://cos.example/0.wav' });
+    localStorage.setItem('voice-capsule:scripts:task-1', JSON.stringify({
+      0: { text: ' 谢谢你一直在我身边 ', uploadTranscript: true },
+    }));
+    const { recordButton } = renderRecorder();
+
+    await holdToRecord(recordButton, 1000);
+
+    expect(uploadMock.mock.calls[0][4]).toEqual({ transcript: '谢谢你一直在我身边' });
+  });
+
+  it('没有选择上传文字稿时不提交 transcript 字段', async () => {
+    uploadMock.mockResolvedValue({ success: true, url: 'https://cos.example/0.wav' });
+    localStorage.setItem('voice-capsule:scripts:task-1', JSON.stringify({
+      0: { text: '谢谢你一直在我身边', uploadTranscript: false },
+    }));
+    const { recordButton } = renderRecorder();
+
+    await holdToRecord(recordButton, 1000);
+
+    expect(uploadMock.mock.calls[0][4]).toEqual({});
+  });
+
+  it('按住不到防误触延迟就松开时不录音', async () => {
+    const { recordButton } = renderRecorder();
+
+    fireEvent.touchStart(recordButton);
+    await advance(200);
+    fireEvent.touchEnd(recordButton);
+    await advance(1000);
+
+    expect(getUserMedia).not.toHaveBeenCalled();
+    expect(uploadMock).not.toHaveBeenCalled();
+  });
+
+  it('到达本段时长上限时自动停止并上传', async () => {
+    uploadMock.mockResolvedValue({ success: true, url: 'https://cos.example/0.wav' });
+    const { recordButton } = renderRecorder();
+
+    fireEvent.touchStart(recordButton);
+    await advance(500);
+    await advance(2800);
+    expect(uploadMock).not.toHaveBeenCalled();
+
+    await advance(400);
+    expect(uploadMock).toHaveBeenCalledTimes(1);
+    expect(screen.getByText('上传成功！')).toBeTruthy();
+
+    // 之后松开手指不会再触发一次停止
+    fireEvent.touchEnd(recordButton);
+    await advance(100);
+    expect(uploadMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('上传失败后可重试，成功后不再显示错误', async () => {
+    uploadMock
+      .mockResolvedValueOnce({ success: false, error: '网络错误' })
+      .mockResolvedValueOnce({ success: true, url: 'https://cos.example/0.wav' });
+    const { recordButton } = renderRecorder();
+
+    await holdToRecord(recordButton, 1000);
+    expect(screen.getAllByText('网络错误').length).toBeGreaterThan(0);
+
+    fireEvent.click(screen.getByText('重试上传'));
+    await advance(100);
+
+    expect(uploadMock).toHaveBeenCalledTimes(2);
+    expect(uploadMock.mock.calls[1][0]).toBe(uploadMock.mock.calls[0][0]); // 重试上传同一份录音
+    expect(screen.getByText('上传成功！')).toBeTruthy();
+  });
+
+  it('上传连续失败3次后不再允许重试上传', async () => {
+    uploadMock.mockResolvedValue({ success: false, error: '网络错误' });
+    const { recordButton } = renderRecorder();
+
+    await holdToRecord(recordButton, 1000);
+    for (let i = 0; i < 2; i++) {
+      fireEvent.click(screen.getByText('重试上传'));
+      await advance(100);
+    }
+    expect(uploadMock).toHaveBeenCalledTimes(3);
+
+    fireEvent.click(screen.getByText('重试上传'));
+    await advance(100);
+    expect(uploadMock).toHaveBeenCalledTimes(3);
+    expect(window.alert).toHaveBeenCalledWith('无法重试，请重新录制');
+  });
+
+  it('上传失败时转入离线队列并提示后台补传', async () => {
+    uploadMock.mockResolvedValue({ success: false, error: '网络错误' });
+    enqueueMock.mockResolvedValue(true);
+    const { recordButton } = renderRecorder();
+
+    await holdToRecord(recordButton, 1000);
+
+    expect(enqueueMock).toHaveBeenCalledWith(uploadMock.mock.calls[0][0], 'task-1', 0, expect.any(Number), {});
+    expect(screen.getAllByText('网络不稳定，已转入后台上传，网络恢复后会自动完成').length).toBeGreaterThan(0);
+  });
+
+  it('后端明确拒绝（4xx）的上传不转入离线队列', async () => {
+    uploadMock.mockResolvedValue({ success: false, error: '录音文件过大，请重新录制', status: 413 });
+    enqueueMock.mockResolvedValue(true);
+    const { recordButton } = renderRecorder();
+
+    await holdToRecord(recordButton, 1000);
+
+    expect(enqueueMock).not.toHaveBeenCalled();
+    expect(screen.getAllByText('录音文件过大，请重新录制').length).toBeGreaterThan(0);
+  });
+
+  it('重新录制时丢弃旧录音的分块上传断点', async () => {
+    uploadMock.mockResolvedValue({ success: false, error: '网络错误' });
+    const { recordButton } = renderRecorder();
+
+    await holdToRecord(recordButton, 1000);
+    localStorage.setItem('cos-multipart:task-1_0', JSON.stringify({ key: 'k', uploadId: 'u', fingerprint: 'f', parts: [] }));
+
+    fireEvent.click(screen.getByText('重新录制'));
+    await advance(100);
+
+    expect(localStorage.getItem('cos-multipart:task-1_0')).toBeNull();
+  });
+
+  describe('离线补传结果', () => {
+    // 录一段并让上传失败转入离线队列，返回 Service Worker 补传成功的通知回调
+    async function recordQueued() {
+      let notify: (result: QueuedUploadResult) => void = () => {};
+      onQueuedCompleteMock.mockImplementation((callback) => {
+        notify = callback;
+        return () => {};
+      });
+      uploadMock.mockResolvedValue({ success: false, error: '网络错误' });
+      enqueueMock.mockResolvedValue(true);
+      const { recordButton } = renderRecorder();
+      await holdToRecord(recordButton, 1000);
+      const takeId = enqueueMock.mock.calls[0][3];
+      return { takeId, notify: (result: QueuedUploadResult) => act(() => notify(result)) };
+    }
+
+    it('同一次录音补传成功后标记为已上传', async () => {
+      const { takeId, notify } = await recordQueued();
+
+      notify({ taskId: 'task-1', segmentIndex: 0, takeId, url: 'https://cos.example/0.mp3' });
+
+      expect(screen.getByText('上传成功！')).toBeTruthy();
+    });
+
+    it('重录后撤下旧录音的离线上传，旧录音补传成功也不影响新录音', async () => {
+      const { takeId, notify } = await recordQueued();
+
+      fireEvent.click(screen.getByText('重新录制'));
+      expect(removeQueuedMock).toHaveBeenCalledWith('task-1', 0);
+
+      // 新录音同样上传失败，处于可接受补传结果的状态
+      await holdToRecord(document.querySelector('button.w-24') as HTMLButtonElement, 1000);
+      expect(enqueueMock.mock.calls[1][3]).not.toBe(takeId);
+
+      notify({ taskId: 'task-1', segmentIndex: 0, takeId, url: 'https://cos.example/old.mp3' });
+
+      expect(screen.queryByText('上传成功！')).toBeNull();
+      expect(screen.getByText('重试上传')).toBeTruthy();
+    });
+  });
+
+  describe('恢复会话', () => {
+    // 模拟刷新页面：第一段以 status 保存在本地会话中，按 App 的方式恢复后交给录音组件
+    function renderRestored(status: SegmentStatus) {
+      const [first, second] = createSegments(2);
+      const stored = [{ ...first, status, takeId: 1, blob: encodeWav(new Float32Array(44100), 44100) }, second];
+      const segments = stored.map(({ url: _url, ...segment }) => {
+        const restored = restoreSegmentStatus(segment);
+        return { ...restored, url: restored.blob ? URL.createObjectURL(restored.blob) : null };
+      });
+      return render(
+        <Recorder taskId="task-1" template={TEMPLATE} initialSegments={segments} onComplete={vi.fn()} onBack={vi.fn()} />
+      );
+    }
+
+    beforeEach(() => {
+      uploadMock.mockResolvedValue({ success: true, url: 'https://cos.example/0.wav' });
+    });
+
+    it('开启试听剪辑时，已录制的段回到试听而不是直接上传', async () => {
+      localStorage.setItem('voice-capsule:review-before-upload', '1');
+      renderRestored('recorded');
+      await advance(100);
+
+      expect(uploadMock).not.toHaveBeenCalled();
+      expect(screen.getAllByText('录音完成，试听剪辑后上传').length).toBeGreaterThan(0);
+    });
+
+    it('不需要试听的已录制段直接重新上传', async () => {
+      renderRestored('recorded');
+      await advance(100);
+
+      expect(uploadMock).toHaveBeenCalledTimes(1);
+      expect(uploadMock.mock.calls[0][2]).toBe(0);
+    });
+
+    it('上传中被打断的段已经试听确认过，直接重新上传', async () => {
+      localStorage.setItem('voice-capsule:review-before-upload', '1');
+      renderRestored('uploading');
+      await advance(100);
+
+      expect(uploadMock).toHaveBeenCalledTimes(1);
+      expect(screen.getByText('上传成功！')).toBeTruthy();
+    });
+  });
+});
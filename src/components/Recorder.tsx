@@ -1,218 +1,220 @@
-import React, { useState, useRef, useCallback } from 'react';
-//import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { Mic, Square, RotateCcw, Check, Volume2, AlertCircle, ChevronRight, Loader2 } from 'lucide-react';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { Mic, Square, Pause, Play, RotateCcw, Check, Volume2, AlertCircle, AlertTriangle, ChevronRight, Loader2 } from 'lucide-react';
 import { useRecorder } from '../hooks/useRecorder';
-import { uploadAudioSegment } from '../utils/cos-upload';
-
-interface Segment {
-  id: number;
-  status: 'pending' | 'recording' | 'processing' | 'recorded' | 'uploading' | 'uploaded' | 'error';
-  blob: Blob | null;
-  url: string | null;
-  uploadUrl: string | null;
-  retryCount: number;
-  errorMsg?: string;
-}
+import { useSegments } from '../hooks/useSegments';
+import AudioVisualizer, { VisualizerStyle } from './AudioVisualizer';
+import TrimEditor from './TrimEditor';
+import EffectsPanel from './EffectsPanel';
+import ScriptEditor from './ScriptEditor';
+import Teleprompter from './Teleprompter';
+import { CapsuleTemplate, DEFAULT_TEMPLATE } from '../utils/capsule-template';
+import { uploadAudioSegment, clearUploadCheckpoint, UploadProgress } from '../utils/cos-upload';
+import { encodeAudio } from '../utils/audio-encoder';
+import { analyzeBlob, getQualityWarnings, qualityToFields, AudioQuality } from '../utils/audio-quality';
+import { processBlob, hasEffects, loadVoiceEffects, saveVoiceEffects, VoiceEffects } from '../utils/audio-effects';
+import { saveSession } from '../utils/session-store';
+import { Segment, createSegments, MAX_RETRIES } from '../utils/segment-state';
+import { loadScriptDrafts, saveScriptDrafts, transcriptToFields, ScriptDraft } from '../utils/segment-script';
+import {
+  enqueueUpload,
+  isPermanentFailure,
+  removeQueuedUpload,
+  getCompletedUploads,
+  onQueuedUploadComplete,
+  flushUploadQueue,
+  QueuedUploadResult,
+} from '../utils/upload-queue';
 
 interface RecorderProps {
   taskId: string;
+  template?: CapsuleTemplate; // 段数、提示语与时长
+  initialSegments?: Segment[]; // 从本地会话恢复的段
+  initialSegment?: number;
+  onSegmentChange?: (index: number) => void;
   onComplete: (segments: Segment[]) => void;
   onBack: () => void;
 }
 
-const SEGMENT_DURATION = 60; // 每段60秒
-const MAX_RETRIES = 3; // 每段最多重试3次
 const HOLD_DELAY = 500; // 按住500ms才开始录音（防止误触）
-
-const Recorder: React.FC<RecorderProps> = ({ taskId, onComplete, onBack }) => {
-  const { state, startRecording, stopRecording, resetRecording } = useRecorder();
-  const [currentSegment, setCurrentSegment] = useState(0);
-  const [segments, setSegments] = useState<Segment[]>([
-    { id: 0, status: 'pending', blob: null, url: null, uploadUrl: null, retryCount: 0 },
-    { id: 1, status: 'pending', blob: null, url: null, uploadUrl: null, retryCount: 0 },
-    { id: 2, status: 'pending', blob: null, url: null, uploadUrl: null, retryCount: 0 },
-  ]);
+const REVIEW_SETTING_KEY = 'voice-capsule:review-before-upload';
+const RECORD_MODE_KEY = 'voice-capsule:record-mode';
+
+type RecordMode = 'hold' | 'tap'; // 按住说话 / 点按开始、再点结束
+
+const Recorder: React.FC<RecorderProps> = ({
+  taskId,
+  template = DEFAULT_TEMPLATE,
+  initialSegments,
+  initialSegment = 0,
+  onSegmentChange,
+  onComplete,
+  onBack,
+}) => {
+  const { state, startRecording, stopRecording, pauseRecording, resumeRecording, resetRecording, analyserRef } = useRecorder();
+  const [currentSegment, setCurrentSegment] = useState(initialSegment);
+  const [segments, segmentActions] = useSegments(() => initialSegments || createSegments(template.segments.length));
   const [isHoldStarting, setIsHoldStarting] = useState(false);
+  const [recordMode, setRecordMode] = useState<RecordMode>(() =>
+    localStorage.getItem(RECORD_MODE_KEY) === 'tap' ? 'tap' : 'hold'
+  );
   const [showGuide, setShowGuide] = useState(true);
+  const [uploadProgress, setUploadProgress] = useState<Record<number, UploadProgress>>({});
+  const [visualizerStyle, setVisualizerStyle] = useState<VisualizerStyle>('bars');
+  // 录完先试听剪辑，确认后再上传
+  const [reviewBeforeUpload, setReviewBeforeUpload] = useState(() => localStorage.getItem(REVIEW_SETTING_KEY) === '1');
+  const [reviewingSegment, setReviewingSegment] = useState<number | null>(null);
+  // 各段提词稿草稿
+  const [scripts, setScripts] = useState<Record<number, ScriptDraft>>(() => loadScriptDrafts(taskId));
+  // 上传前的人声效果，各段共用
+  const [effects, setEffects] = useState<VoiceEffects>(loadVoiceEffects);
   
   const holdTimerRef = useRef<NodeJS.Timeout | null>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const stoppingRef = useRef(false); // 自动停止和手动停止可能同时触发，只处理一次
+
+  const segmentTemplate = template.segments[currentSegment] || template.segments[template.segments.length - 1];
+  const segmentDuration = segmentTemplate.maxDuration;
+  const isLastSegment = currentSegment >= segments.length - 1;
 
-  // 音量可视化
-  /*
   useEffect(() => {
-    if (!canvasRef.current || !state.isRecording) return;
-
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const draw = () => {
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      
-      // 绘制音量条
-      const barCount = 20;
-      const barWidth = canvas.width / barCount;
-      const maxHeight = canvas.height * 0.8;
-      
-      for (let i = 0; i < barCount; i++) {
-        // 添加一些随机波动效果
-        const randomFactor = 0.5 + Math.random() * 0.5;
-        const barHeight = state.volume * maxHeight * randomFactor;
-        const x = i * barWidth + barWidth * 0.2;
-        const y = (canvas.height - barHeight) / 2;
-        
-        // 渐变色
-        const gradient = ctx.createLinearGradient(0, y, 0, y + barHeight);
-        gradient.addColorStop(0, '#f97316');
-        gradient.addColorStop(1, '#ea580c');
-        
-        ctx.fillStyle = gradient;
-        ctx.roundRect(x, y, barWidth * 0.6, barHeight, 4);
-        ctx.fill();
-      }
+    onSegmentChange?.(currentSegment);
+  }, [currentSegment, onSegmentChange]);
 
-      if (state.isRecording) {
-        requestAnimationFrame(draw);
+  useEffect(() => {
+    saveScriptDrafts(taskId, scripts);
+  }, [taskId, scripts]);
+
+  // 持久化会话：只保留尚未上传成功的录音 blob
+  useEffect(() => {
+    saveSession({
+      currentSegment,
+      segments: segments.map(({ url: _url, ...segment }) => ({
+        ...segment,
+        blob: segment.status === 'uploaded' ? null : segment.blob,
+      })),
+    });
+  }, [segments, currentSegment]);
+
+  // 恢复会话后，把未上传成功的段重新加入上传；
+  // 已录制的段可能还在等待试听剪辑，需要试听的回到试听，不直接上传未剪辑的录音
+  useEffect(() => {
+    if (!initialSegments) return;
+    initialSegments.forEach((segment, idx) => {
+      if (!segment.blob) return;
+      if (segment.status === 'recorded' && needsReview(segment.quality ?? null)) {
+        console.log('♻️ 第', idx + 1, '段回到试听剪辑');
+        setReviewingSegment(idx);
+      } else if (segment.status === 'recorded' || segment.status === 'error') {
+        console.log('♻️ 重新上传第', idx + 1, '段');
+        uploadSegment(segment.blob, idx, segment.takeId, segment.quality);
       }
+    });
+    // 只在挂载时执行一次
+  }, []);
+
+  // 离线队列补传成功后同步段状态（包括页面关闭期间完成的补传）
+  useEffect(() => {
+    const applyQueuedUpload = (result: QueuedUploadResult) => {
+      if (result.taskId !== taskId) return;
+      console.log('📤 后台补传成功，第', result.segmentIndex + 1, '段');
+
+      // 状态机只接受与当前录音 takeId 相同的结果，重录后旧录音补传成功也不会改变新录音的状态
+      segmentActions.uploadSucceeded(result.segmentIndex, result.url || null, result.takeId);
+      removeQueuedUpload(taskId, result.segmentIndex);
     };
 
-    draw();
-  }, [state.isRecording, state.volume]);
-  */
-  
-  // 自动停止：60秒倒计时结束
+    getCompletedUploads(taskId).then(results => results.forEach(applyQueuedUpload));
+    const unsubscribe = onQueuedUploadComplete(applyQueuedUpload);
+
+    // 不支持后台同步的浏览器在网络恢复时主动触发补传
+    const handleOnline = () => flushUploadQueue();
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [taskId, segmentActions]);
+
+  // 自动停止：本段时长上限到达
   useEffect(() => {
-    if (state.isRecording && state.recordingTime >= SEGMENT_DURATION) {
-      console.log('⏰ 60秒到，自动停止录音');
-      handleAutoStop();
+    if (state.isRecording && state.recordingTime >= segmentDuration) {
+      console.log(`⏰ ${segmentDuration}秒到，自动停止录音`);
+      finishRecording();
     }
-  }, [state.isRecording, state.recordingTime]);
-  
+  }, [state.isRecording, state.recordingTime, segmentDuration]);
 
-  // 改为简单的静态显示
-  {/* 音量可视化 - 简化为静态，排除 Canvas 性能问题 */}
-<div className="h-16 w-full max-w-xs mb-6">
-  {state.isRecording ? (
-    <div className="flex items-center justify-center h-full gap-1">
-      {[...Array(8)].map((_, i) => (
-        <div 
-          key={i}
-          className="w-2 bg-orange-500 rounded-full animate-pulse"
-          style={{ 
-            height: `${Math.max(20, state.volume * 100)}%`,
-            animationDelay: `${i * 0.1}s`
-          }}
-        />
-      ))}
-    </div>
-  ) : (
-    <div className="flex items-center justify-center h-full text-gray-400">
-      <Volume2 className="w-6 h-6 mr-2" />
-      <span className="text-sm">等待录音...</span>
-    </div>
-  )}
-</div>
-  
+  // 开启试听剪辑、使用了声音效果（需要A/B对比）或录音质量有问题时，先试听再上传
+  const needsReview = (quality: AudioQuality | null) =>
+    reviewBeforeUpload || hasEffects(effects) || (!!quality && getQualityWarnings(quality).length > 0);
 
-  // 自动停止处理（区分于手动停止）
-  const handleAutoStop = useCallback(async () => {
-    console.log('🔴 handleAutoStop 执行', '当前段:', currentSegment);
-    
-    if (!state.isRecording) {
-      console.log('❌ 未在录制中，直接返回');
-      return;
-    }
-    
-    // 立即更新为 processing 状态
-    setSegments(prev => {
-      const newSegments = [...prev];
-      newSegments[currentSegment] = { 
-        ...newSegments[currentSegment], 
-        status: 'processing' 
-      };
-      return newSegments;
-    });
-    
-    const blob = await stopRecording();
-    console.log('🎤 stopRecording 返回 blob:', blob ? '有数据' : '无数据');
-  
-    // 修正 MIME 类型
-    let correctedBlob: Blob | null = blob;  // ✅ 显式声明类型
-    if (blob && correctedBlob) {  // ✅ 同时检查两个
-      if (blob.type === 'audio/wav' || blob.type === '') {
-        correctedBlob = new Blob([blob], { type: 'audio/webm' });
-        console.log('📝 修正 MIME 类型:', blob.type, '→ audio/webm');
+  // 结束录音：编码、分析质量，然后上传或进入试听（自动停止和手动停止共用）
+  const finishRecording = async () => {
+    if (stoppingRef.current) return;
+    stoppingRef.current = true;
+    const index = currentSegment;
+    segmentActions.recordingStopped(index);
+
+    try {
+      const recorded = await stopRecording();
+      if (!recorded) {
+        segmentActions.recordingFailed(index, '录制失败，请重试');
+        return;
+      }
+      console.log('🎤 录音时长:', `${recorded.duration.toFixed(2)}秒`);
+
+      // 短于本段最短时长的录音需要重录（以解码得到的实际时长为准）
+      if (recorded.duration < segmentTemplate.minDuration) {
+        segmentActions.recordingFailed(index, `录音太短，至少需要${segmentTemplate.minDuration}秒`);
+        return;
       }
-      
+
+      // 编码为 MP3（WAV 体积太大），同时分析原始录音的质量
+      const [encoded, quality] = await Promise.all([encodeAudio(recorded.blob), analyzeBlob(recorded.blob)]);
       console.log('📊 Blob 详情:', {
-        originalType: blob?.type,
-        correctedType: correctedBlob?.type,
-        size: correctedBlob.size,  // 不需要 !
-        sizeInMB: (correctedBlob.size / 1024 / 1024).toFixed(2) + ' MB'
-      });
-    } else {
-      console.log('📊 Blob 为 null');
-      // 录制失败处理
-      setSegments(prev => {
-        const newSegments = [...prev];
-        newSegments[currentSegment] = {
-          ...newSegments[currentSegment],
-          status: 'error',
-          errorMsg: '录制失败，请重试',
-        };
-        return newSegments;
+        originalType: recorded.blob.type,
+        encodedType: encoded.type,
+        size: encoded.size,
+        sizeInMB: (encoded.size / 1024 / 1024).toFixed(2) + ' MB'
       });
-      return; // 提前返回
+      const takeId = segmentActions.recorded(index, encoded, quality || undefined);
+
+      if (needsReview(quality)) {
+        setReviewingSegment(index);
+      } else {
+        uploadSegment(encoded, index, takeId, quality || undefined);
+      }
+    } finally {
+      stoppingRef.current = false;
     }
-  
-    // ✅ 确保 correctedBlob 不为 null 才继续
-    if (correctedBlob) {
-      const url = URL.createObjectURL(correctedBlob);
-      
-      // 更新段状态为已录制
-      setSegments(prev => {
-        const newSegments = [...prev];
-        newSegments[currentSegment] = {
-          ...newSegments[currentSegment],
-          status: 'recorded',
-          blob: correctedBlob,
-          url,
-        };
-        return newSegments;
-      });
-  
-      // ✅ 自动上传（已检查非空）
-      uploadSegment(correctedBlob, currentSegment);
+  };
+
+  // 开始录制当前段
+  const beginRecording = async () => {
+    const index = currentSegment;
+    setShowGuide(false);
+    segmentActions.startRecording(index);
+
+    const started = await startRecording(segmentDuration);
+    if (!started) {
+      segmentActions.recordingFailed(index, '无法开始录音，请检查麦克风权限');
     }
-  }, [state.isRecording, stopRecording, currentSegment]);
+  };
 
   // 开始按住录音
-  const handleTouchStart = useCallback(() => {
+  const handleTouchStart = () => {
     if (segments[currentSegment].status !== 'pending' && segments[currentSegment].status !== 'error') {
       return; // 已录制完成，不能重新录制除非重置
     }
 
     setIsHoldStarting(true);
-    holdTimerRef.current = setTimeout(async () => {
+    holdTimerRef.current = setTimeout(() => {
       setIsHoldStarting(false);
-      setShowGuide(false);
-      
-      // 更新当前段状态为录制中
-      setSegments(prev => {
-        const newSegments = [...prev];
-        newSegments[currentSegment] = { ...newSegments[currentSegment], status: 'recording' };
-        return newSegments;
-      });
-
-      await startRecording();
+      beginRecording();
     }, HOLD_DELAY);
-  }, [currentSegment, segments, startRecording]);
+  };
 
   // 结束录音（手动）
-  const handleTouchEnd = useCallback(async () => {
-    console.log('🔵 handleTouchEnd 执行');
-    
+  const handleTouchEnd = async () => {
     if (isHoldStarting) {
       console.log('⏹️ 按住延迟中，取消录音');
       if (holdTimerRef.current) {
@@ -221,160 +223,167 @@ const Recorder: React.FC<RecorderProps> = ({ taskId, onComplete, onBack }) => {
       setIsHoldStarting(false);
       return;
     }
-  
-    if (!state.isRecording || state.recordingTime >= SEGMENT_DURATION) {
-      console.log('⏭️ 跳过手动停止');
+
+    // 已到时长上限的由自动停止处理
+    if (!state.isRecording || state.recordingTime >= segmentDuration) {
       return;
     }
-  
-    // 更新状态为 processing
-    setSegments(prev => {
-      const newSegments = [...prev];
-      newSegments[currentSegment] = { 
-        ...newSegments[currentSegment], 
-        status: 'processing' 
-      };
-      return newSegments;
-    });
-  
-    const blob = await stopRecording();
-  
-  // 修正 MIME 类型
-  let correctedBlob: Blob | null = blob;  // ✅ 显式声明类型
-  if (blob) {
-    if (blob.type === 'audio/wav' || blob.type === '') {
-      correctedBlob = new Blob([blob], { type: 'audio/webm' });
-      console.log('📝 修正 MIME 类型:', blob.type, '→ audio/webm');
-    }
-  } else {
-    // 录制失败
-    setSegments(prev => {
-      const newSegments = [...prev];
-      newSegments[currentSegment] = {
-        ...newSegments[currentSegment],
-        status: 'error',
-        errorMsg: '录制失败',
-      };
-      return newSegments;
-    });
-    return;
-  }
-
-  // ✅ 确保 correctedBlob 不为 null
-  if (correctedBlob) {
-    const url = URL.createObjectURL(correctedBlob);
-    
-    setSegments(prev => {
-      const newSegments = [...prev];
-      newSegments[currentSegment] = {
-        ...newSegments[currentSegment],
-        status: 'recorded',
-        blob: correctedBlob,
-        url,
-      };
-      return newSegments;
-    });
 
-    // ✅ 已检查非空
-    uploadSegment(correctedBlob, currentSegment);
-  }
-}, [isHoldStarting, state.isRecording, state.recordingTime, stopRecording, currentSegment]);
+    await finishRecording();
+  };
 
-  // 主动停止录音（新增：按钮点击停止）
-  const handleManualStop = useCallback(async () => {
+  // 主动停止录音（按钮点击停止）
+  const handleManualStop = async () => {
     if (!state.isRecording) return;
-    
+
     console.log('🛑 用户主动点击停止');
     await handleTouchEnd();
-  }, [state.isRecording, handleTouchEnd]);
+  };
+
+  // 按住说话时松开手指结束录音；暂停后（如切回页面时）松开不算结束
+  const handleHoldEnd = () => {
+    if (state.isPaused) return;
+    handleTouchEnd();
+  };
+
+  // 点按模式：点一下开始，再点一下结束
+  const handleTapToggle = () => {
+    if (state.isRecording) {
+      handleManualStop();
+      return;
+    }
+    if (segments[currentSegment].status !== 'pending' && segments[currentSegment].status !== 'error') {
+      return;
+    }
+    beginRecording();
+  };
+
+  const handleTogglePause = () => {
+    if (state.isPaused) {
+      resumeRecording();
+    } else {
+      pauseRecording();
+    }
+  };
+
+  const handleRecordModeChange = (mode: RecordMode) => {
+    setRecordMode(mode);
+    localStorage.setItem(RECORD_MODE_KEY, mode);
+  };
 
   // 上传音频段
-  const uploadSegment = async (blob: Blob, segmentIndex: number) => {
-    setSegments(prev => {
-      const newSegments = [...prev];
-      newSegments[segmentIndex] = { ...newSegments[segmentIndex], status: 'uploading' };
-      return newSegments;
-    });
+  const uploadSegment = async (blob: Blob, segmentIndex: number, takeId: number | null, quality?: AudioQuality) => {
+    // 质量指标和文字稿作为附加表单字段随音频提交（从本地草稿读取，避免闭包拿到旧的提词稿）
+    const fields = {
+      ...(quality ? qualityToFields(quality) : {}),
+      ...transcriptToFields(loadScriptDrafts(taskId)[segmentIndex]),
+    };
+    segmentActions.uploadStarted(segmentIndex);
+    let uploadStatus: number | undefined;
 
     try {
-      const result = await uploadAudioSegment(blob, taskId, segmentIndex);
+      const result = await uploadAudioSegment(blob, taskId, segmentIndex, (progress) => {
+        setUploadProgress(prev => ({ ...prev, [segmentIndex]: progress }));
+      }, fields);
       console.log('上传结果:', result);
 
       if (result.success) {
-        setSegments(prev => {
-          const newSegments = [...prev];
-          newSegments[segmentIndex] = {
-            ...newSegments[segmentIndex],
-            status: 'uploaded',
-            uploadUrl: result.url || null,
-          };
-          return newSegments;
-        });
+        removeQueuedUpload(taskId, segmentIndex);
+        segmentActions.uploadSucceeded(segmentIndex, result.url || null, takeId);
       } else {
+        uploadStatus = result.status;
         throw new Error(result.error || '上传失败');
       }
     } catch (error) {
       console.error('上传错误:', error);
-      setSegments(prev => {
-        const newSegments = [...prev];
-        newSegments[segmentIndex] = {
-          ...newSegments[segmentIndex],
-          status: 'error',
-          retryCount: newSegments[segmentIndex].retryCount + 1,
-          errorMsg: error instanceof Error ? error.message : '上传失败',
-        };
-        return newSegments;
+      // 存入离线队列，由 Service Worker 在网络恢复后补传；后端明确拒绝的不再补传
+      const queued = !isPermanentFailure(uploadStatus) && await enqueueUpload(blob, taskId, segmentIndex, takeId, fields);
+      segmentActions.uploadFailed(
+        segmentIndex,
+        queued
+          ? '网络不稳定，已转入后台上传，网络恢复后会自动完成'
+          : error instanceof Error ? error.message : '上传失败'
+      );
+    } finally {
+      setUploadProgress(prev => {
+        const { [segmentIndex]: _done, ...rest } = prev;
+        return rest;
       });
     }
   };
 
-  // 重试上传（新增：只重试上传，不重录）
-  const handleRetryUpload = useCallback(async () => {
+  // 重试上传（只重试上传，不重录）
+  const handleRetryUpload = async () => {
     const currentSeg = segments[currentSegment];
-    if (!currentSeg.blob || currentSeg.retryCount >= MAX_RETRIES) {
+    if (!currentSeg.blob || currentSeg.uploadFailures >= MAX_RETRIES) {
       alert('无法重试，请重新录制');
       return;
     }
 
-    await uploadSegment(currentSeg.blob, currentSegment);
-  }, [currentSegment, segments]);
+    await uploadSegment(currentSeg.blob, currentSegment, currentSeg.takeId, currentSeg.quality);
+  };
 
-  // 重录当前段
-  const handleRetry = useCallback(() => {
-    const currentSeg = segments[currentSegment];
-    if (currentSeg.retryCount >= MAX_RETRIES) {
-      alert('该段已重试次数过多，请继续下一段');
+  // 剪辑确认后应用声音效果并上传
+  const handleTrimConfirm = async (trimmedBlob: Blob) => {
+    const index = currentSegment;
+    const currentSeg = segments[index];
+    setReviewingSegment(null);
+
+    if (trimmedBlob === currentSeg.blob && !hasEffects(effects)) {
+      uploadSegment(trimmedBlob, index, currentSeg.takeId, currentSeg.quality);
       return;
     }
 
-    // 释放之前的URL
-    if (currentSeg.url) {
-      URL.revokeObjectURL(currentSeg.url);
+    segmentActions.processing(index);
+    let finalBlob = trimmedBlob;
+    if (hasEffects(effects)) {
+      try {
+        finalBlob = await processBlob(trimmedBlob, effects);
+      } catch (error) {
+        // 处理失败时上传未加效果的录音，不阻塞流程
+        console.error('声音效果处理失败:', error);
+      }
     }
 
-    setSegments(prev => {
-      const newSegments = [...prev];
-      newSegments[currentSegment] = {
-        ...newSegments[currentSegment],
-        status: 'pending',
-        blob: null,
-        url: null,
-        uploadUrl: null,
-        errorMsg: undefined,
-      };
-      return newSegments;
-    });
+    // 剪辑或加效果后重新分析，提交的指标与上传的音频一致
+    const quality = (await analyzeBlob(finalBlob)) || undefined;
+    const takeId = segmentActions.recorded(index, finalBlob, quality);
+    uploadSegment(finalBlob, index, takeId, quality);
+  };
+
+  const handleEffectsChange = (next: VoiceEffects) => {
+    setEffects(next);
+    saveVoiceEffects(next);
+  };
+
+  // 切换试听剪辑开关
+  const handleToggleReview = (enabled: boolean) => {
+    setReviewBeforeUpload(enabled);
+    localStorage.setItem(REVIEW_SETTING_KEY, enabled ? '1' : '0');
+  };
 
+  // 重录当前段
+  const handleRetry = () => {
+    if (segments[currentSegment].retryCount >= MAX_RETRIES) {
+      alert('该段已重试次数过多，请继续下一段');
+      return;
+    }
+
+    segmentActions.rerecord(currentSegment);
+    // 旧录音不再需要：撤下还没补传的离线上传，丢弃分块上传断点
+    removeQueuedUpload(taskId, currentSegment);
+    clearUploadCheckpoint(taskId, currentSegment);
+    setReviewingSegment(null);
     resetRecording();
-  }, [currentSegment, segments, resetRecording]);
+  };
 
   // 切换到下一段
   const handleNextSegment = useCallback(() => {
-    if (currentSegment < 2) {
+    if (!isLastSegment) {
       setCurrentSegment(prev => prev + 1);
       resetRecording();
     }
-  }, [currentSegment, resetRecording]);
+  }, [isLastSegment, resetRecording]);
 
   // 完成所有录制
   const handleComplete = useCallback(() => {
@@ -406,14 +415,26 @@ const Recorder: React.FC<RecorderProps> = ({ taskId, onComplete, onBack }) => {
     }
   };
 
+  // 格式化剩余时间
+  const formatRemaining = (seconds: number) => {
+    return seconds >= 60 ? `${Math.floor(seconds / 60)}分${seconds % 60}秒` : `${seconds}秒`;
+  };
+
   // 获取状态文字
   const getStatusText = (segment: Segment) => {
+    const progress = uploadProgress[segment.id];
     switch (segment.status) {
-      case 'pending': return '按住下方按钮开始录音';
-      case 'recording': return '正在录音...';
+      case 'pending': return recordMode === 'hold' ? '按住下方按钮开始录音' : '点击下方按钮开始录音';
+      case 'recording':
+        if (!state.isPaused) return '正在录音...';
+        return state.interrupted ? '录音已自动暂停（切到后台或来电），点击继续录音' : '录音已暂停';
       case 'processing': return '正在处理...';
-      case 'recorded': return '录音完成，准备上传...';
-      case 'uploading': return '正在上传...';
+      case 'recorded': return reviewingSegment === segment.id ? '录音完成，试听剪辑后上传' : '录音完成，准备上传...';
+      case 'uploading':
+        if (!progress) return '正在上传...';
+        return progress.remainingSeconds !== null && progress.percent < 100
+          ? `正在上传 ${progress.percent}%，预计还需${formatRemaining(progress.remainingSeconds)}`
+          : `正在上传 ${progress.percent}%`;
       case 'uploaded': return '上传成功！';
       case 'error': return segment.errorMsg || '上传失败，可重试';
       default: return '';
@@ -421,15 +442,37 @@ const Recorder: React.FC<RecorderProps> = ({ taskId, onComplete, onBack }) => {
   };
 
   const currentSeg = segments[currentSegment];
-  const canRecord = currentSeg.status === 'pending' || currentSeg.status === 'error';
+  // 上传失败时保留了录音，显示重试上传；录制失败（没有录音）才回到录音按钮
+  const canRecord = currentSeg.status === 'pending' || (currentSeg.status === 'error' && !currentSeg.blob);
+  const showRecordControls = canRecord || state.isRecording;
   const canProceed = segments.every(s => s.status === 'uploaded');
+  const isReviewing = reviewingSegment === currentSegment && currentSeg.status === 'recorded';
+  const currentScript = scripts[currentSegment] || { text: '', uploadTranscript: false };
+  const qualityWarnings = currentSeg.quality ? getQualityWarnings(currentSeg.quality) : [];
+
+  const handleScriptChange = (draft: ScriptDraft) => {
+    setScripts(prev => ({ ...prev, [currentSegment]: draft }));
+  };
+
+  // 按住说话模式绑定按下/松开，点按模式只响应点击
+  const recordButtonHandlers = recordMode === 'hold'
+    ? {
+        onTouchStart: handleTouchStart,
+        onTouchEnd: handleHoldEnd,
+        onMouseDown: handleTouchStart,
+        onMouseUp: handleHoldEnd,
+        onMouseLeave: handleHoldEnd,
+      }
+    : { onClick: handleTapToggle };
 
   return (
     <div className="max-w-md mx-auto px-4 py-6">
       {/* 标题 */}
       <div className="text-center mb-6">
         <h2 className="text-2xl font-bold text-gray-800">录制声音胶囊</h2>
-        <p className="text-gray-500 mt-1">共3段，每段最多60秒</p>
+        <p className="text-gray-500 mt-1">
+          共{segments.length}段，每段最多{segmentDuration}秒
+        </p>
       </div>
 
       {/* 段进度指示器 */}
@@ -443,6 +486,8 @@ const Recorder: React.FC<RecorderProps> = ({ taskId, onComplete, onBack }) => {
           >
             {segment.status === 'uploaded' ? (
               <Check className="w-6 h-6" />
+            ) : segment.status === 'uploading' && uploadProgress[idx] ? (
+              <span className="text-sm">{uploadProgress[idx].percent}%</span>
             ) : segment.status === 'uploading' || segment.status === 'processing' ? (
               <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
             ) : (
@@ -456,59 +501,75 @@ const Recorder: React.FC<RecorderProps> = ({ taskId, onComplete, onBack }) => {
       <div className="text-center mb-6">
         <p className="text-lg font-medium text-gray-700">
           第 {currentSegment + 1} 段
-          {currentSegment === 0 && ' - "想对TA说的话"'}
-          {currentSegment === 1 && ' - "你们的故事"'}
-          {currentSegment === 2 && ' - "祝福与期待"'}
+          {` - "${segmentTemplate.prompt}"`}
         </p>
         <p className="text-sm text-gray-500 mt-1">
           {getStatusText(currentSeg)}
         </p>
       </div>
 
+      {/* 提词稿：录音前编辑，录音时滚动显示 */}
+      {state.isRecording && currentScript.text.trim() ? (
+        <Teleprompter
+          script={currentScript.text}
+          recordingTime={state.recordingTime}
+          maxDuration={segmentDuration}
+        />
+      ) : canRecord && !state.isRecording && (
+        <ScriptEditor
+          key={currentSegment}
+          prompt={segmentTemplate.prompt}
+          draft={currentScript}
+          onChange={handleScriptChange}
+        />
+      )}
+
       {/* 录音按钮区域 */}
       <div className="flex flex-col items-center mb-8">
-        {/* 音量可视化 */}
+        {/* 音量可视化（点击切换柱状图/波形） */}
         <div className="h-16 w-full max-w-xs mb-6">
           {state.isRecording ? (
-            <canvas
-              ref={canvasRef}
-              width={300}
-              height={64}
+            <button
+              type="button"
+              onClick={() => setVisualizerStyle(prev => (prev === 'bars' ? 'waveform' : 'bars'))}
               className="w-full h-full"
-            />
+            >
+              <AudioVisualizer analyserRef={analyserRef} active={state.isRecording && !state.isPaused} variant={visualizerStyle} />
+            </button>
           ) : (
             <div className="flex items-center justify-center h-full text-gray-400">
               <Volume2 className="w-6 h-6 mr-2" />
-              <span className="text-sm">{showGuide ? '按住按钮开始录音' : '等待录音...'}</span>
+              <span className="text-sm">
+                {showGuide ? (recordMode === 'hold' ? '按住按钮开始录音' : '点击按钮开始录音') : '等待录音...'}
+              </span>
             </div>
           )}
         </div>
 
         {/* 倒计时 */}
         {state.isRecording && (
-          <div className="text-3xl font-mono font-bold text-orange-600 mb-4">
-            {formatTime(SEGMENT_DURATION - state.recordingTime)}
+          <div className={`text-3xl font-mono font-bold mb-4 ${state.isPaused ? 'text-gray-400' : 'text-orange-600'}`}>
+            {formatTime(Math.ceil(Math.max(0, segmentDuration - state.recordingTime)))}
+            {state.isPaused && <span className="text-sm font-sans font-medium ml-2">已暂停</span>}
           </div>
         )}
 
         {/* 录音按钮区域 */}
         <div className="flex flex-col items-center gap-4">
-          {canRecord ? (
+          {showRecordControls ? (
             <>
               <button
-                onTouchStart={handleTouchStart}
-                onTouchEnd={handleTouchEnd}
-                onMouseDown={handleTouchStart}
-                onMouseUp={handleTouchEnd}
-                onMouseLeave={handleTouchEnd}
+                {...recordButtonHandlers}
                 className={`w-24 h-24 rounded-full flex items-center justify-center transition-all ${
                   isHoldStarting
                     ? 'bg-orange-300 scale-95'
+                    : state.isPaused
+                    ? 'bg-gray-400'
                     : state.isRecording
                     ? 'bg-red-500 scale-110 animate-pulse'
                     : 'bg-orange-500 hover:bg-orange-600 shadow-lg hover:shadow-xl'
                 }`}
-                disabled={state.isRecording && !isHoldStarting}
+                disabled={recordMode === 'hold' && state.isRecording && !isHoldStarting}
               >
                 {state.isRecording ? (
                   <Square className="w-10 h-10 text-white fill-white" />
@@ -517,20 +578,29 @@ const Recorder: React.FC<RecorderProps> = ({ taskId, onComplete, onBack }) => {
                 )}
               </button>
               
-              {/* 新增：主动停止按钮（录制中时显示） */}
+              {/* 暂停/继续与主动停止（录制中时显示） */}
               {state.isRecording && (
-                <button
-                  onClick={handleManualStop}
-                  className="px-6 py-2 bg-gray-600 text-white rounded-full text-sm font-medium hover:bg-gray-700 transition-colors flex items-center gap-2"
-                >
-                  <Square className="w-4 h-4 fill-white" />
-                  提前结束录音
-                </button>
+                <div className="flex gap-3">
+                  <button
+                    onClick={handleTogglePause}
+                    className="px-6 py-2 bg-orange-100 text-orange-700 rounded-full text-sm font-medium hover:bg-orange-200 transition-colors flex items-center gap-2"
+                  >
+                    {state.isPaused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                    {state.isPaused ? '继续录音' : '暂停'}
+                  </button>
+                  <button
+                    onClick={handleManualStop}
+                    className="px-6 py-2 bg-gray-600 text-white rounded-full text-sm font-medium hover:bg-gray-700 transition-colors flex items-center gap-2"
+                  >
+                    <Square className="w-4 h-4 fill-white" />
+                    提前结束录音
+                  </button>
+                </div>
               )}
             </>
           ) : (
             <div className="flex gap-4">
-              {currentSeg.status === 'uploaded' && currentSegment < 2 && (
+              {currentSeg.status === 'uploaded' && !isLastSegment && (
                 <button
                   onClick={handleNextSegment}
                   className="px-6 py-3 bg-orange-500 text-white rounded-full font-medium flex items-center gap-2 hover:bg-orange-600 transition-colors"
@@ -539,7 +609,7 @@ const Recorder: React.FC<RecorderProps> = ({ taskId, onComplete, onBack }) => {
                   <ChevronRight className="w-5 h-5" />
                 </button>
               )}
-              {(currentSeg.status === 'error' || currentSeg.status === 'uploaded') && (
+              {(currentSeg.status === 'error' || currentSeg.status === 'uploaded' || isReviewing) && (
                 <button
                   onClick={handleRetry}
                   className="px-6 py-3 bg-gray-500 text-white rounded-full font-medium flex items-center gap-2 hover:bg-gray-600 transition-colors"
@@ -564,13 +634,66 @@ const Recorder: React.FC<RecorderProps> = ({ taskId, onComplete, onBack }) => {
         {/* 提示文字 */}
         <p className="text-sm text-gray-500 mt-4">
           {isHoldStarting && '请继续按住...'}
-          {state.isRecording && '松开或点击按钮结束录音'}
-          {canRecord && !isHoldStarting && !state.isRecording && '按住录音'}
+          {state.isRecording && (state.isPaused
+            ? '点击继续录音，接着刚才的内容录'
+            : recordMode === 'hold' ? '松开或点击按钮结束录音' : '点击按钮结束录音')}
+          {canRecord && !isHoldStarting && !state.isRecording && (recordMode === 'hold' ? '按住录音' : '点击录音')}
         </p>
+
+        {/* 录音方式 */}
+        {canRecord && !isHoldStarting && !state.isRecording && (
+          <div className="flex bg-gray-100 rounded-full p-1 text-sm mt-3">
+            {(['hold', 'tap'] as RecordMode[]).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => handleRecordModeChange(mode)}
+                className={`px-4 py-1 rounded-full transition-colors ${
+                  recordMode === mode ? 'bg-white text-orange-600 shadow' : 'text-gray-500'
+                }`}
+              >
+                {mode === 'hold' ? '按住说话' : '点按录音'}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
 
+      {/* 录音质量提示 */}
+      {isReviewing && qualityWarnings.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 mb-4 flex items-start gap-3">
+          <AlertTriangle className="w-5 h-5 text-amber-500 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="text-amber-700 font-medium">这段录音可能有问题</p>
+            {qualityWarnings.map((warning) => (
+              <p key={warning} className="text-amber-600 text-sm">{warning}</p>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* 声音效果 A/B 对比 */}
+      {isReviewing && currentSeg.blob && currentSeg.url && (
+        <EffectsPanel
+          key={`effects-${currentSeg.url}`}
+          blob={currentSeg.blob}
+          url={currentSeg.url}
+          effects={effects}
+          onChange={handleEffectsChange}
+        />
+      )}
+
+      {/* 试听剪辑 */}
+      {isReviewing && currentSeg.blob && currentSeg.url && (
+        <TrimEditor
+          key={currentSeg.url}
+          blob={currentSeg.blob}
+          url={currentSeg.url}
+          onConfirm={handleTrimConfirm}
+        />
+      )}
+
       {/* 音频预览 */}
-      {currentSeg.url && currentSeg.status !== 'uploading' && currentSeg.status !== 'processing' && (
+      {!isReviewing && currentSeg.url && currentSeg.status !== 'uploading' && currentSeg.status !== 'processing' && (
         <div className="bg-gray-50 rounded-xl p-4 mb-6">
           <p className="text-sm text-gray-600 mb-2">预览：</p>
           <audio
@@ -596,6 +719,17 @@ const Recorder: React.FC<RecorderProps> = ({ taskId, onComplete, onBack }) => {
         </div>
       )}
 
+      {/* 试听剪辑开关 */}
+      <label className="flex items-center justify-center gap-2 text-sm text-gray-500 mb-6">
+        <input
+          type="checkbox"
+          checked={reviewBeforeUpload}
+          onChange={(e) => handleToggleReview(e.target.checked)}
+          className="accent-orange-500"
+        />
+        录完先试听剪辑，确认后再上传
+      </label>
+
       {/* 底部按钮 */}
       <div className="flex gap-4">
         <button
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { FileText, ChevronDown, ChevronUp } from 'lucide-react';
+import { getSuggestedScripts, ScriptDraft } from '../utils/segment-script';
+
+interface ScriptEditorProps {
+  prompt: string;
+  draft: ScriptDraft;
+  onChange: (draft: ScriptDraft) => void;
+}
+
+/**
+ * 提词稿编辑：自己输入或选用参考稿，录音时作为提词器显示
+ */
+const ScriptEditor: React.FC<ScriptEditorProps> = ({ prompt, draft, onChange }) => {
+  const [isOpen, setIsOpen] = useState(draft.text.length > 0);
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-4 mb-6">
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full flex items-center justify-between text-sm text-gray-600"
+      >
+        <span className="flex items-center gap-2">
+          <FileText className="w-4 h-4" />
+          {draft.text ? '提词稿（录音时自动滚动）' : '不知道说什么？写个提词稿'}
+        </span>
+        {isOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-3">
+          <div className="flex flex-wrap gap-2 mb-3">
+            {getSuggestedScripts(prompt).map((suggestion, idx) => (
+              <button
+                key={idx}
+                type="button"
+                onClick={() => onChange({ ...draft, text: suggestion })}
+                className="px-3 py-1 bg-white border border-gray-200 rounded-full text-xs text-gray-600 hover:bg-gray-100 transition-colors"
+              >
+                参考稿{idx + 1}
+              </button>
+            ))}
+          </div>
+
+          <textarea
+            value={draft.text}
+            onChange={(e) => onChange({ ...draft, text: e.target.value })}
+            placeholder={`写下想说的话：${prompt}`}
+            rows={4}
+            className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-transparent outline-none resize-none"
+          />
+
+          <label className="flex items-center gap-2 text-xs text-gray-500 mt-2">
+            <input
+              type="checkbox"
+              checked={draft.uploadTranscript}
+              onChange={(e) => onChange({ ...draft, uploadTranscript: e.target.checked })}
+              className="accent-orange-500"
+            />
+            随录音一起上传为文字稿
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScriptEditor;
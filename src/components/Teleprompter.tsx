@@ -0,0 +1,42 @@
+import React, { useRef, useEffect } from 'react';
+import { getScriptDuration } from '../utils/segment-script';
+import { TIMER_TICK } from '../hooks/useRecorder';
+
+interface TeleprompterProps {
+  script: string;
+  recordingTime: number; // 秒
+  maxDuration: number; // 本段时长上限（秒）
+}
+
+/**
+ * 提词器：录音时按录音时长滚动提词稿
+ * recordingTime 每 TIMER_TICK 更新一次，每次线性过渡滚到下一次更新的位置，滚动保持连续
+ */
+const Teleprompter: React.FC<TeleprompterProps> = ({ script, recordingTime, maxDuration }) => {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    const content = contentRef.current;
+    if (!viewport || !content) return;
+
+    // 首尾各留半屏空白，当前朗读的内容保持在中间
+    const distance = content.scrollHeight - viewport.clientHeight;
+    const progress = Math.min(1, (recordingTime + TIMER_TICK) / getScriptDuration(script, maxDuration));
+    content.style.transition = recordingTime === 0 ? 'none' : `transform ${TIMER_TICK}s linear`;
+    content.style.transform = `translateY(${-Math.max(0, distance) * progress}px)`;
+  }, [script, recordingTime, maxDuration]);
+
+  return (
+    <div ref={viewportRef} className="relative h-32 overflow-hidden bg-gray-900 rounded-xl mb-6">
+      <div ref={contentRef} className="px-5 py-16 text-lg leading-relaxed text-white whitespace-pre-wrap">
+        {script}
+      </div>
+      <div className="pointer-events-none absolute inset-x-0 top-0 h-8 bg-gradient-to-b from-gray-900 to-transparent" />
+      <div className="pointer-events-none absolute inset-x-0 bottom-0 h-8 bg-gradient-to-t from-gray-900 to-transparent" />
+    </div>
+  );
+};
+
+export default Teleprompter;
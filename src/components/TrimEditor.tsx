@@ -0,0 +1,206 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Play, Pause, Scissors, Upload, Loader2 } from 'lucide-react';
+import { decodeToMono, MonoAudio } from '../utils/audio-buffer';
+import { computePeaks, detectSilence, trimAudio, TrimRange } from '../utils/audio-trim';
+
+interface TrimEditorProps {
+  blob: Blob;
+  url: string;
+  onConfirm: (blob: Blob) => void;
+}
+
+const PEAK_COUNT = 80;
+const MIN_LENGTH = 1; // 剪辑后至少保留1秒
+
+/**
+ * 录音剪辑：试听并裁掉开头和结尾，自动预选首尾静音
+ */
+const TrimEditor: React.FC<TrimEditorProps> = ({ blob, url, onConfirm }) => {
+  const [audio, setAudio] = useState<MonoAudio | null>(null);
+  const [peaks, setPeaks] = useState<Float32Array | null>(null);
+  const [range, setRange] = useState<TrimRange>({ start: 0, end: 0 });
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  const duration = audio ? audio.samples.length / audio.sampleRate : 0;
+
+  // 解码录音并检测首尾静音
+  useEffect(() => {
+    let cancelled = false;
+    decodeToMono(blob)
+      .then((decoded) => {
+        if (cancelled) return;
+        setAudio(decoded);
+        setPeaks(computePeaks(decoded.samples, PEAK_COUNT));
+        setRange(detectSilence(decoded));
+      })
+      .catch((err) => {
+        console.error('解码录音失败:', err);
+        if (!cancelled) setError('无法剪辑该录音，可直接上传');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [blob]);
+
+  // 绘制波形，裁掉的部分置灰
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !peaks || !duration) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const ratio = Math.min(window.devicePixelRatio || 1, 2);
+    const width = canvas.clientWidth * ratio;
+    const height = canvas.clientHeight * ratio;
+    canvas.width = width;
+    canvas.height = height;
+
+    const slot = width / peaks.length;
+    peaks.forEach((peak, i) => {
+      const time = ((i + 0.5) / peaks.length) * duration;
+      const barHeight = Math.max(2 * ratio, peak * height);
+      ctx.fillStyle = time >= range.start && time <= range.end ? '#f97316' : '#d1d5db';
+      ctx.fillRect(i * slot + slot * 0.2, (height - barHeight) / 2, slot * 0.6, barHeight);
+    });
+  }, [peaks, duration, range]);
+
+  // 试听时只播放选中的范围
+  useEffect(() => {
+    const player = audioRef.current;
+    if (!player) return;
+
+    const handleTimeUpdate = () => {
+      if (player.currentTime >= range.end) {
+        player.pause();
+      }
+    };
+    const handlePlay = () => setIsPlaying(true);
+    const handlePause = () => setIsPlaying(false);
+
+    player.addEventListener('timeupdate', handleTimeUpdate);
+    player.addEventListener('play', handlePlay);
+    player.addEventListener('pause', handlePause);
+    return () => {
+      player.removeEventListener('timeupdate', handleTimeUpdate);
+      player.removeEventListener('play', handlePlay);
+      player.removeEventListener('pause', handlePause);
+    };
+  }, [range.end]);
+
+  const togglePreview = () => {
+    const player = audioRef.current;
+    if (!player) return;
+    if (isPlaying) {
+      player.pause();
+    } else {
+      player.currentTime = range.start;
+      player.play();
+    }
+  };
+
+  const handleStartChange = (value: number) => {
+    setRange(prev => ({ ...prev, start: Math.min(value, prev.end - MIN_LENGTH) }));
+  };
+
+  const handleEndChange = (value: number) => {
+    setRange(prev => ({ ...prev, end: Math.max(value, prev.start + MIN_LENGTH) }));
+  };
+
+  // 确认：有裁剪时重新编码，否则直接使用原录音
+  const handleConfirm = async () => {
+    audioRef.current?.pause();
+    if (!audio || (range.start <= 0.05 && range.end >= duration - 0.05)) {
+      onConfirm(blob);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      onConfirm(await trimAudio(audio, range));
+    } catch (err) {
+      console.error('剪辑失败:', err);
+      setError('剪辑失败，可直接上传原录音');
+      setIsSaving(false);
+    }
+  };
+
+  const formatSeconds = (seconds: number) => `${seconds.toFixed(1)}s`;
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-4 mb-6">
+      <p className="text-sm text-gray-600 mb-3 flex items-center gap-2">
+        <Scissors className="w-4 h-4" />
+        试听并剪掉开头或结尾多余的部分
+      </p>
+
+      <audio ref={audioRef} src={url} preload="auto" />
+
+      {audio && peaks ? (
+        <>
+          <canvas ref={canvasRef} className="w-full h-16 mb-3" />
+
+          <div className="space-y-2 mb-4">
+            <label className="flex items-center gap-3 text-xs text-gray-500">
+              <span className="w-8">开头</span>
+              <input
+                type="range"
+                min={0}
+                max={duration}
+                step={0.1}
+                value={range.start}
+                onChange={(e) => handleStartChange(Number(e.target.value))}
+                className="flex-1 accent-orange-500"
+              />
+              <span className="w-10 text-right">{formatSeconds(range.start)}</span>
+            </label>
+            <label className="flex items-center gap-3 text-xs text-gray-500">
+              <span className="w-8">结尾</span>
+              <input
+                type="range"
+                min={0}
+                max={duration}
+                step={0.1}
+                value={range.end}
+                onChange={(e) => handleEndChange(Number(e.target.value))}
+                className="flex-1 accent-orange-500"
+              />
+              <span className="w-10 text-right">{formatSeconds(range.end)}</span>
+            </label>
+          </div>
+        </>
+      ) : !error && (
+        <div className="h-16 mb-3 flex items-center justify-center text-gray-400">
+          <Loader2 className="w-5 h-5 animate-spin" />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      <div className="flex gap-3">
+        <button
+          onClick={togglePreview}
+          disabled={!audio || isSaving}
+          className="flex-1 py-2 bg-white border border-gray-200 rounded-full text-sm font-medium text-gray-700 flex items-center justify-center gap-2 hover:bg-gray-100 transition-colors disabled:opacity-50"
+        >
+          {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          试听
+        </button>
+        <button
+          onClick={handleConfirm}
+          disabled={isSaving || (!audio && !error)}
+          className="flex-1 py-2 bg-orange-500 text-white rounded-full text-sm font-medium flex items-center justify-center gap-2 hover:bg-orange-600 transition-colors disabled:opacity-50"
+        >
+          {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          {isSaving ? '处理中...' : '确认上传'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TrimEditor;
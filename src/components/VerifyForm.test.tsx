@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import VerifyForm from './VerifyForm';
+import { mockFetchResponse } from '../test/media';
+
+const ORDER_SN = '1234567890123456';
+
+function fillForm(orderSn: string, mobileTail: string) {
+  fireEvent.change(screen.getByPlaceholderText('请输入16位订单号'), { target: { value: orderSn } });
+  fireEvent.change(screen.getByPlaceholderText('请输入4位数字'), { target: { value: mobileTail } });
+  fireEvent.submit(screen.getByRole('button', { name: '开始制作' }).closest('form')!);
+}
+
+describe('VerifyForm', () => {
+  it('订单号不足16位时不发请求', () => {
+    const fetchMock = mockFetchResponse({ success: true, taskId: 'task-1' });
+    render(<VerifyForm onVerified={vi.fn()} />);
+
+    fillForm('12345', '1234');
+
+    expect(screen.getByText('订单号应为16位数字')).toBeTruthy();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('手机号后4位不足4位时不发请求', () => {
+    const fetchMock = mockFetchResponse({ success: true, taskId: 'task-1' });
+    render(<VerifyForm onVerified={vi.fn()} />);
+
+    fillForm(ORDER_SN, '12');
+
+    expect(screen.getByText('手机号后4位应为4位数字')).toBeTruthy();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['taskId', { success: true, taskId: 'task-camel' }, 'task-camel'],
+    ['task_id', { success: true, task_id: 'task-snake' }, 'task-snake'],
+  ])('响应中的 %s 都能识别', async (_field, body, expectedTaskId) => {
+    const fetchMock = mockFetchResponse(body);
+    const onVerified = vi.fn();
+    render(<VerifyForm onVerified={onVerified} />);
+
+    fillForm(ORDER_SN, '1234');
+
+    await waitFor(() => expect(onVerified).toHaveBeenCalled(), { timeout: 2000 });
+    expect(onVerified.mock.calls[0][0]).toBe(expectedTaskId);
+    expect(onVerified.mock.calls[0][1]).toMatchObject({ orderSn: ORDER_SN, mobileTail: '1234' });
+
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(JSON.parse(init.body as string)).toEqual({ order_sn: ORDER_SN, mobile_tail: '1234' });
+  });
+
+  it('验证失败时显示后端返回的提示', async () => {
+    mockFetchResponse({ success: false, message: '订单已制作过声音胶囊' });
+    const onVerified = vi.fn();
+    render(<VerifyForm onVerified={onVerified} />);
+
+    fillForm(ORDER_SN, '1234');
+
+    expect(await screen.findByText('订单已制作过声音胶囊')).toBeTruthy();
+    expect(onVerified).not.toHaveBeenCalled();
+  });
+});
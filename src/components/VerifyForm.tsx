@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Gift, Phone, FileText, AlertCircle, CheckCircle, Loader2 } from 'lucide-react';
+import type { CapsuleTemplate } from '../utils/capsule-template';
+import { verifyOrder } from '../utils/api-client';
 
 interface VerifyFormProps {
   onVerified: (taskId: string, orderInfo: OrderInfo) => void;
@@ -9,16 +11,9 @@ export interface OrderInfo {
   orderSn: string;
   mobileTail: string;
   buyerName?: string;
+  template?: CapsuleTemplate; // 商品对应的胶囊模板，旧的本地会话中可能没有
 }
 
-interface VerifyResponse {
-  success: boolean;
-  taskId?: string;
-  message?: string;
-}
-
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'https://voice-capsule-api.vercel.app';
-
 const VerifyForm: React.FC<VerifyFormProps> = ({ onVerified }) => {
   const [orderSn, setOrderSn] = useState('');
   const [mobileTail, setMobileTail] = useState('');
@@ -62,43 +57,26 @@ const VerifyForm: React.FC<VerifyFormProps> = ({ onVerified }) => {
 
     setIsLoading(true);
 
-    try {
-      const response = await fetch(`${API_BASE_URL}/api/verify`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          order_sn: orderSn,
-          mobile_tail: mobileTail,
-        }),
-      });
+    const result = await verifyOrder(orderSn, mobileTail);
+    setIsLoading(false);
 
-      const data: VerifyResponse = await response.json();
-
-      if (data.success && (data.taskId || (data as any).task_id)) {
-        const taskId = data.taskId || (data as any).task_id;
-        
-        console.log('✅ 验证成功，taskId:', taskId);  // 第1个日志
-        setIsSuccess(true);
-        
-        setTimeout(() => {
-          console.log('⏰ setTimeout 执行，准备调用 onVerified');  // 第2个日志
-          onVerified(taskId, {
-            orderSn,
-            mobileTail,
-          });
-          console.log('📞 onVerified 已调用');  // 第3个日志
-        }, 800);
-      } else {
-        setError(data.message || '验证失败，请检查订单信息');
-      }
-    } catch (err) {
-      console.error('验证请求失败:', err);
-      setError('网络错误，请稍后重试');
-    } finally {
-      setIsLoading(false);
+    if (!result.success) {
+      setError(result.error);
+      return;
     }
+
+    const { taskId, buyerName, template } = result.data;
+    console.log('✅ 验证成功，taskId:', taskId);
+    setIsSuccess(true);
+
+    setTimeout(() => {
+      onVerified(taskId, {
+        orderSn,
+        mobileTail,
+        buyerName,
+        template,
+      });
+    }, 800);
   };
 
   return (
@@ -125,7 +103,7 @@ const VerifyForm: React.FC<VerifyFormProps> = ({ onVerified }) => {
           </li>
           <li className="flex items-start gap-2">
             <span className="bg-orange-200 text-orange-800 w-5 h-5 rounded-full flex items-center justify-center text-xs flex-shrink-0 mt-0.5">2</span>
-            <span>分段录制3段音频（每段60秒）</span>
+            <span>按提示分段录制音频</span>
           </li>
           <li className="flex items-start gap-2">
             <span className="bg-orange-200 text-orange-800 w-5 h-5 rounded-full flex items-center justify-center text-xs flex-shrink-0 mt-0.5">3</span>
@@ -0,0 +1,408 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { audioBufferToMono } from '../utils/audio-buffer';
+import { measureLoudness, getNormalizationGain } from '../utils/loudness';
+import { MusicSettings, DuckPoint, loadMusicBuffer, getDuckPoints, scheduleDucking } from '../utils/background-music';
+
+export interface PlaybackSegment {
+  url: string | null;
+  loudness?: number | null; // 积分响度（LUFS），缺失时加载后测量
+}
+
+export interface Chapter {
+  start: number; // 在整条时间轴上的起点（秒）
+  duration: number;
+}
+
+export interface UseCapsulePlaybackReturn {
+  isPlaying: boolean;
+  isBuffering: boolean; // 播到尚未加载完的段，等待加载
+  currentTime: number; // 整条时间轴上的位置（秒）
+  duration: number; // 已加载各段的总时长
+  chapters: Chapter[]; // 已加载的段，按顺序
+  currentIndex: number;
+  error: string | null;
+  play: () => void; // 需在用户点击时调用，浏览器才允许启动 AudioContext
+  pause: () => void;
+  seek: (time: number) => void;
+}
+
+const SCHEDULE_LEAD = 0.05; // 预留50ms调度余量，避免开头被截掉
+const TICK_INTERVAL = 200;
+
+/**
+ * 连续播放：按顺序预加载各段，用 Web Audio 首尾相接地调度播放，没有切换间隙
+ * 每段单独一个增益节点做响度均衡，背景音乐在人声下方循环并随说话闪避，之后经过（可选的）压缩器输出
+ */
+export function useCapsulePlayback(
+  segments: PlaybackSegment[],
+  compressorEnabled: boolean,
+  music: MusicSettings | null = null
+): UseCapsulePlaybackReturn {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isBuffering, setIsBuffering] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [chapters, setChapters] = useState<Chapter[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const contextRef = useRef<AudioContext | null>(null);
+  const busRef = useRef<GainNode | null>(null);
+  const compressorRef = useRef<DynamicsCompressorNode | null>(null);
+  const buffersRef = useRef<AudioBuffer[]>([]); // 只保存从第一段开始连续加载完成的段
+  const gainNodesRef = useRef<GainNode[]>([]);
+  const sourcesRef = useRef<AudioBufferSourceNode[]>([]);
+  const duckPointsRef = useRef<DuckPoint[][]>([]); // 各段内的闪避时间点
+  const musicRef = useRef(music);
+  const musicBufferRef = useRef<AudioBuffer | null>(null);
+  const musicGainRef = useRef<GainNode | null>(null);
+  const musicSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  // 调度状态：时间轴位置 = startOffset + (context.currentTime - startedAt)
+  const playingRef = useRef(false);
+  const startedAtRef = useRef(0);
+  const startOffsetRef = useRef(0);
+  const scheduledCountRef = useRef(0); // 已调度到第几段（不含）
+  const scheduledEndRef = useRef(0); // 已调度音频在 AudioContext 时间上的结束点
+  const positionRef = useRef(0); // 暂停时的位置
+  const loadDoneRef = useRef(false); // 全部加载完成或加载失败，不会再有新的段
+  const compressorEnabledRef = useRef(compressorEnabled);
+
+  const getContext = useCallback((): AudioContext => {
+    if (!contextRef.current) {
+      const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+      const bus = context.createGain();
+
+      // 柔和压缩：压低突然的大声，让轻声更清楚
+      const compressor = context.createDynamicsCompressor();
+      compressor.threshold.value = -24;
+      compressor.knee.value = 30;
+      compressor.ratio.value = 3;
+      compressor.attack.value = 0.003;
+      compressor.release.value = 0.25;
+      compressor.connect(context.destination);
+
+      bus.connect(compressorEnabledRef.current ? compressor : context.destination);
+      const musicGain = context.createGain();
+      musicGain.connect(bus);
+      contextRef.current = context;
+      busRef.current = bus;
+      compressorRef.current = compressor;
+      musicGainRef.current = musicGain;
+    }
+    return contextRef.current;
+  }, []);
+
+  const getChapterStart = (index: number) =>
+    buffersRef.current.slice(0, index).reduce((sum, buffer) => sum + buffer.duration, 0);
+
+  const getPosition = useCallback(() => {
+    const context = contextRef.current;
+    if (!playingRef.current || !context) return positionRef.current;
+    return startOffsetRef.current + Math.max(0, context.currentTime - startedAtRef.current);
+  }, []);
+
+  const stopSources = useCallback(() => {
+    sourcesRef.current.forEach((source) => {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch {
+        // 尚未开始或已结束
+      }
+      source.disconnect();
+    });
+    sourcesRef.current = [];
+
+    if (musicSourceRef.current) {
+      try {
+        musicSourceRef.current.stop();
+      } catch {
+        // 尚未开始
+      }
+      musicSourceRef.current.disconnect();
+      musicSourceRef.current = null;
+    }
+  }, []);
+
+  // 整条时间轴上的闪避时间点
+  const getTimelineDuckPoints = () => {
+    let offset = 0;
+    return buffersRef.current.flatMap((buffer, index) => {
+      const points = (duckPointsRef.current[index] || []).map(point => ({ ...point, time: point.time + offset }));
+      offset += buffer.duration;
+      return points;
+    });
+  };
+
+  // 从时间轴位置 from 开始循环播放背景音乐
+  const startMusic = useCallback((from: number, when: number) => {
+    const context = contextRef.current;
+    const buffer = musicBufferRef.current;
+    const musicGain = musicGainRef.current;
+    if (musicSourceRef.current) {
+      musicSourceRef.current.stop();
+      musicSourceRef.current.disconnect();
+      musicSourceRef.current = null;
+    }
+    if (!context || !buffer || !musicGain || !musicRef.current) return;
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+    source.connect(musicGain);
+    source.start(when, from % buffer.duration);
+    musicSourceRef.current = source;
+    scheduleDucking(musicGain.gain, getTimelineDuckPoints(), musicRef.current.level, from, when);
+  }, []);
+
+  // 把第 index 段接在已调度音频之后
+  const scheduleSegment = useCallback((index: number, when: number, offset: number) => {
+    const context = contextRef.current;
+    const buffer = buffersRef.current[index];
+    const gainNode = gainNodesRef.current[index];
+    if (!context || !buffer || !gainNode) return;
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(gainNode);
+    source.start(when, offset);
+    sourcesRef.current.push(source);
+    scheduledCountRef.current = index + 1;
+    scheduledEndRef.current = when + buffer.duration - offset;
+  }, []);
+
+  // 从时间轴位置 from 开始，调度所有已加载的段
+  const scheduleFrom = useCallback((from: number) => {
+    const context = contextRef.current;
+    if (!context) return;
+
+    stopSources();
+    const when = context.currentTime + SCHEDULE_LEAD;
+    startedAtRef.current = when;
+    startOffsetRef.current = from;
+    scheduledEndRef.current = when;
+    scheduledCountRef.current = 0;
+
+    let chapterStart = 0;
+    buffersRef.current.forEach((buffer, index) => {
+      const chapterEnd = chapterStart + buffer.duration;
+      if (chapterEnd > from) {
+        scheduleSegment(index, scheduledEndRef.current, Math.max(0, from - chapterStart));
+      }
+      chapterStart = chapterEnd;
+    });
+    startMusic(from, when);
+    setIsBuffering(false);
+  }, [scheduleSegment, startMusic, stopSources]);
+
+  const play = useCallback(() => {
+    const context = getContext();
+    if (context.state === 'suspended') {
+      context.resume();
+    }
+    if (playingRef.current) return;
+
+    const total = getChapterStart(buffersRef.current.length);
+    const from = loadDoneRef.current && positionRef.current >= total ? 0 : positionRef.current;
+    playingRef.current = true;
+    setIsPlaying(true);
+    scheduleFrom(from);
+  }, [getContext, scheduleFrom]);
+
+  const pause = useCallback(() => {
+    if (!playingRef.current) return;
+    positionRef.current = getPosition();
+    playingRef.current = false;
+    stopSources();
+    setIsPlaying(false);
+    setIsBuffering(false);
+    setCurrentTime(positionRef.current);
+  }, [getPosition, stopSources]);
+
+  const seek = useCallback((time: number) => {
+    const target = Math.max(0, Math.min(time, getChapterStart(buffersRef.current.length)));
+    positionRef.current = target;
+    setCurrentTime(target);
+    if (playingRef.current) {
+      scheduleFrom(target);
+    }
+  }, [scheduleFrom]);
+
+  // 按顺序加载各段，加载完一段即可开始播放
+  const segmentKey = segments.map(segment => segment.url).join('|');
+  useEffect(() => {
+    let cancelled = false;
+    const context = getContext();
+    const bus = busRef.current!;
+
+    stopSources();
+    playingRef.current = false;
+    positionRef.current = 0;
+    loadDoneRef.current = false;
+    buffersRef.current = [];
+    gainNodesRef.current.forEach(node => node.disconnect());
+    gainNodesRef.current = [];
+    duckPointsRef.current = [];
+    setIsPlaying(false);
+    setCurrentTime(0);
+    setChapters([]);
+    setError(null);
+
+    const loadAll = async () => {
+      for (const segment of segments) {
+        if (!segment.url) break;
+        try {
+          const response = await fetch(segment.url);
+          if (!response.ok) {
+            throw new Error(`下载音频失败: ${response.status}`);
+          }
+          const data = await response.arrayBuffer();
+          const buffer = await new Promise<AudioBuffer>((resolve, reject) => {
+            context.decodeAudioData(data, resolve, reject);
+          });
+          if (cancelled) return;
+
+          const mono = audioBufferToMono(buffer);
+          const loudness = segment.loudness ?? measureLoudness(mono);
+          const gainNode = context.createGain();
+          gainNode.gain.value = getNormalizationGain(loudness);
+          gainNode.connect(bus);
+
+          const index = buffersRef.current.length;
+          buffersRef.current.push(buffer);
+          gainNodesRef.current.push(gainNode);
+          duckPointsRef.current.push(getDuckPoints(mono.samples, mono.sampleRate));
+          setChapters(buffersRef.current.map((item, idx) => ({ start: getChapterStart(idx), duration: item.duration })));
+
+          // 正在播放且已播到（或即将播到）这一段时接上
+          if (playingRef.current && scheduledCountRef.current === index) {
+            if (scheduledEndRef.current > context.currentTime + SCHEDULE_LEAD) {
+              scheduleSegment(index, scheduledEndRef.current, 0);
+              // 补上新一段的闪避
+              if (musicGainRef.current && musicRef.current && musicSourceRef.current) {
+                scheduleDucking(musicGainRef.current.gain, getTimelineDuckPoints(), musicRef.current.level, getPosition(), context.currentTime);
+              }
+            } else {
+              scheduleFrom(getChapterStart(index));
+            }
+          }
+        } catch (err) {
+          console.error('加载音频失败:', err);
+          if (!cancelled) setError('音频加载失败，请检查网络后重试');
+          break;
+        }
+      }
+      if (!cancelled) loadDoneRef.current = true;
+    };
+
+    loadAll();
+    return () => {
+      cancelled = true;
+    };
+    // segments 内容由 segmentKey 表示
+  }, [segmentKey]);
+
+  // 播放时更新进度，播完或等待加载时更新状态
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const timer = setInterval(() => {
+      const context = contextRef.current;
+      if (!context) return;
+
+      const position = getPosition();
+      if (context.currentTime >= scheduledEndRef.current) {
+        if (loadDoneRef.current && scheduledCountRef.current === buffersRef.current.length) {
+          // 全部播完，回到开头
+          playingRef.current = false;
+          positionRef.current = 0;
+          stopSources();
+          setIsPlaying(false);
+          setCurrentTime(0);
+          return;
+        }
+        setIsBuffering(true);
+        setCurrentTime(getChapterStart(scheduledCountRef.current));
+        return;
+      }
+      setCurrentTime(position);
+    }, TICK_INTERVAL);
+
+    return () => clearInterval(timer);
+  }, [isPlaying, getPosition, stopSources]);
+
+  // 加载背景音乐，播放中切换时从当前位置接上
+  const musicSourceKey = music ? JSON.stringify(music.source) : '';
+  useEffect(() => {
+    musicRef.current = music;
+    musicBufferRef.current = null;
+    if (!music) {
+      startMusic(0, 0); // 没有可用的音乐，只会停掉正在播放的
+      return;
+    }
+
+    let cancelled = false;
+    const context = getContext();
+    loadMusicBuffer(music.source, context)
+      .then((buffer) => {
+        if (cancelled) return;
+        musicBufferRef.current = buffer;
+        if (playingRef.current) {
+          startMusic(getPosition(), context.currentTime + SCHEDULE_LEAD);
+        }
+      })
+      .catch((err) => {
+        console.error('加载背景音乐失败:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+    // music 的来源由 musicSourceKey 表示，音量变化在下面单独处理
+  }, [musicSourceKey]);
+
+  // 调整音乐音量
+  const musicLevel = music?.level;
+  useEffect(() => {
+    musicRef.current = music;
+    const context = contextRef.current;
+    if (!context || !music || !musicGainRef.current || !musicSourceRef.current) return;
+    scheduleDucking(musicGainRef.current.gain, getTimelineDuckPoints(), music.level, getPosition(), context.currentTime);
+  }, [musicLevel]);
+
+  // 切换压缩器
+  useEffect(() => {
+    compressorEnabledRef.current = compressorEnabled;
+    const context = contextRef.current;
+    const bus = busRef.current;
+    if (!context || !bus || !compressorRef.current) return;
+    bus.disconnect();
+    bus.connect(compressorEnabled ? compressorRef.current : context.destination);
+  }, [compressorEnabled]);
+
+  useEffect(() => {
+    return () => {
+      playingRef.current = false;
+      stopSources();
+      if (contextRef.current && contextRef.current.state !== 'closed') {
+        contextRef.current.close();
+      }
+      contextRef.current = null;
+    };
+  }, [stopSources]);
+
+  const duration = chapters.reduce((sum, chapter) => sum + chapter.duration, 0);
+  const currentIndex = Math.max(0, chapters.findIndex(chapter => currentTime < chapter.start + chapter.duration));
+
+  return {
+    isPlaying,
+    isBuffering,
+    currentTime,
+    duration,
+    chapters,
+    currentIndex: chapters.length > 0 && currentTime >= duration ? chapters.length - 1 : currentIndex,
+    error,
+    play,
+    pause,
+    seek,
+  };
+}
+
+export default useCapsulePlayback;
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useRecorder } from './useRecorder';
+import { installMediaFakes } from '../test/media';
+import { useFakeClock, advance } from '../test/clock';
+
+vi.mock('recordrtc', async () => ({ default: (await import('../test/media')).FakeRecordRTC }));
+
+describe('useRecorder', () => {
+  beforeEach(() => {
+    useFakeClock();
+  });
+
+  it('用测试引擎录音，停止后返回解码得到的时长', async () => {
+    const { getUserMedia } = installMediaFakes();
+    const { result } = renderHook(() => useRecorder('fake'));
+
+    await act(async () => {
+      await result.current.startRecording();
+    });
+    expect(getUserMedia).toHaveBeenCalledTimes(1);
+    expect(result.current.state.isRecording).toBe(true);
+
+    await advance(2000);
+    expect(result.current.state.recordingTime).toBeCloseTo(2, 1);
+
+    let recorded: Awaited<ReturnType<typeof result.current.stopRecording>> = null;
+    await act(async () => {
+      recorded = await result.current.stopRecording();
+    });
+    expect(recorded!.blob.type).toBe('audio/wav');
+    expect(recorded!.duration).toBeCloseTo(2, 2);
+    expect(result.current.state.isRecording).toBe(false);
+    expect(result.current.state.recordingTime).toBeCloseTo(2, 2);
+  });
+
+  it('暂停期间不计入录音时长', async () => {
+    installMediaFakes();
+    const { result } = renderHook(() => useRecorder('fake'));
+
+    await act(async () => {
+      await result.current.startRecording();
+    });
+    await advance(1000);
+    act(() => result.current.pauseRecording());
+    await advance(3000);
+    act(() => result.current.resumeRecording());
+    await advance(500);
+
+    let duration = 0;
+    await act(async () => {
+      duration = (await result.current.stopRecording())!.duration;
+    });
+    expect(duration).toBeCloseTo(1.5, 2);
+  });
+
+  it('超出时长上限的部分被裁掉', async () => {
+    installMediaFakes();
+    const { result } = renderHook(() => useRecorder('fake'));
+
+    await act(async () => {
+      await result.current.startRecording(1);
+    });
+    await advance(1500);
+
+    let duration = 0;
+    await act(async () => {
+      duration = (await result.current.stopRecording())!.duration;
+    });
+    expect(duration).toBe(1);
+  });
+
+  it('AudioWorklet 启动失败时退回 RecordRTC', async () => {
+    installMediaFakes();
+    const { result } = renderHook(() => useRecorder('audio-worklet'));
+
+    await act(async () => {
+      await result.current.startRecording();
+    });
+    expect(result.current.state.isRecording).toBe(true);
+
+    let duration = 0;
+    await act(async () => {
+      duration = (await result.current.stopRecording())!.duration;
+    });
+    expect(duration).toBe(1); // FakeRecordRTC 固定返回一秒
+  });
+
+  it('拒绝麦克风权限时不开始录音并给出提示', async () => {
+    const { getUserMedia } = installMediaFakes();
+    getUserMedia.mockRejectedValueOnce(new DOMException('denied', 'NotAllowedError'));
+    const { result } = renderHook(() => useRecorder('fake'));
+
+    await act(async () => {
+      await result.current.startRecording();
+    });
+    expect(result.current.state.isRecording).toBe(false);
+    expect(result.current.state.error).toBeTruthy();
+  });
+});
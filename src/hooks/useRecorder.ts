@@ -1,10 +1,21 @@
 import { useState, useRef, useCallback } from 'react';
-import RecordRTC from 'recordrtc';
+import { getAudioConstraints, getMicErrorMessage } from '../utils/mic-check';
+import { decodeToMono, encodeWav } from '../utils/audio-buffer';
+import { createRecorderEngine, RecorderEngine, RecorderEngineType } from '../utils/recorder-engine';
+
+export const TIMER_TICK = 0.1; // 录音计时刷新间隔（秒）
+const DURATION_TOLERANCE = 0.05; // 超出时长上限多少秒以内不裁剪
+
+export interface RecordedAudio {
+  blob: Blob;
+  duration: number; // 解码得到的实际时长（秒）
+}
 
 export interface RecorderState {
   isRecording: boolean;
   isPaused: boolean;
-  recordingTime: number;
+  interrupted: boolean; // 因切到后台、来电等自动暂停
+  recordingTime: number; // 秒，精确到 TIMER_TICK；停止后为录音的实际时长
   volume: number;
   error: string | null;
   audioBlob: Blob | null;
@@ -13,20 +24,26 @@ export interface RecorderState {
 
 export interface UseRecorderReturn {
   state: RecorderState;
-  startRecording: () => Promise<void>;
-  stopRecording: () => Promise<Blob | null>;
-  pauseRecording: () => void;
+  startRecording: (maxDuration?: number) => Promise<boolean>; // 是否成功开始
+  stopRecording: () => Promise<RecordedAudio | null>;
+  pauseRecording: (interrupted?: boolean) => void;
   resumeRecording: () => void;
   resetRecording: () => void;
   streamRef: React.RefObject<MediaStream | null>;
+  analyserRef: React.RefObject<AnalyserNode | null>; // 供实时可视化读取频域/时域数据
 }
 
 
 
-export function useRecorder(): UseRecorderReturn {
+/**
+ * 录音 Hook
+ * @param engineType 指定录音引擎，默认按浏览器能力自动选择；测试时可传 'fake'
+ */
+export function useRecorder(engineType?: RecorderEngineType): UseRecorderReturn {
   const [state, setState] = useState<RecorderState>({
     isRecording: false,
     isPaused: false,
+    interrupted: false,
     recordingTime: 0,
     volume: 0,
     error: null,
@@ -34,7 +51,7 @@ export function useRecorder(): UseRecorderReturn {
     audioUrl: null,
   });
 
-  const recorderRef = useRef<RecordRTC | null>(null);
+  const engineRef = useRef<RecorderEngine | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const rafRef = useRef<number | null>(null);
@@ -42,19 +59,138 @@ export function useRecorder(): UseRecorderReturn {
   const dataArrayRef = useRef<Uint8Array | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
+  const pausedRef = useRef(false);
+  const startedAtRef = useRef(0); // 本次开始或恢复录音的时刻（performance.now）
+  const elapsedRef = useRef(0); // 之前各次暂停前累计的录音时长（毫秒）
+  const maxDurationRef = useRef<number | null>(null);
+  const detachInterruptionRef = useRef<(() => void) | null>(null);
+
+  // 录音时长以单调时钟为准：后台或微信里定时器被节流也不会少算，暂停期间不计时
+  const getElapsedSeconds = () =>
+    (elapsedRef.current + (pausedRef.current ? 0 : performance.now() - startedAtRef.current)) / 1000;
+
+  const startTimer = () => {
+    startedAtRef.current = performance.now();
+    timerRef.current = setInterval(() => {
+      const recordingTime = Math.floor(getElapsedSeconds() / TIMER_TICK) * TIMER_TICK;
+      setState(prev => (prev.recordingTime === recordingTime ? prev : { ...prev, recordingTime }));
+    }, TIMER_TICK * 1000);
+  };
+
+  const stopTimers = () => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+    // ✅ 修复：取消 requestAnimationFrame
+    if (rafRef.current) {
+      cancelAnimationFrame(rafRef.current);
+      rafRef.current = null;
+    }
+  };
+
+  // ✅ 修复：使用 requestAnimationFrame 替代 setInterval，降低频率到 200ms
+  const startVolumeMonitor = () => {
+    if (!analyserRef.current) return;
+    dataArrayRef.current = dataArrayRef.current || new Uint8Array(analyserRef.current.frequencyBinCount);
+    lastVolumeTimeRef.current = performance.now();
+
+    const updateVolume = (timestamp: number) => {
+      if (!engineRef.current) return; // 录音停止时退出
+
+      if (timestamp - lastVolumeTimeRef.current > 200) { // 每 200ms 更新一次
+        lastVolumeTimeRef.current = timestamp;
+
+        if (analyserRef.current && dataArrayRef.current) {
+          analyserRef.current.getByteFrequencyData(dataArrayRef.current as any); // ✅ 加 as any
+          const sum = dataArrayRef.current.reduce((a, b) => a + b, 0);
+          const average = sum / dataArrayRef.current.length || 0;
+          const normalizedVolume = Math.min(average / 128, 1);
+          setState(prev => ({ ...prev, volume: normalizedVolume }));
+        }
+      }
+
+      rafRef.current = requestAnimationFrame(updateVolume);
+    };
+
+    rafRef.current = requestAnimationFrame(updateVolume);
+  };
+
+  const detachInterruptionListeners = () => {
+    detachInterruptionRef.current?.();
+    detachInterruptionRef.current = null;
+  };
+
+  // 暂停录音，interrupted 表示由系统事件触发
+  const pauseRecording = useCallback((interrupted = false) => {
+    if (!engineRef.current || pausedRef.current) return;
+    engineRef.current.pause();
+    elapsedRef.current += performance.now() - startedAtRef.current;
+    pausedRef.current = true;
+    stopTimers();
+    setState(prev => ({ ...prev, isPaused: true, interrupted, volume: 0 }));
+  }, []);
+
+  // 恢复录音，接着之前的内容继续录在同一段里
+  const resumeRecording = useCallback(() => {
+    if (!engineRef.current || !pausedRef.current) return;
+
+    // 来电等情况下系统可能收回了麦克风，只能结束本段
+    const track = streamRef.current?.getAudioTracks()[0];
+    if (!track || track.readyState === 'ended') {
+      setState(prev => ({ ...prev, error: '麦克风已被其他应用占用，请结束本段录音' }));
+      return;
+    }
+
+    // 切到后台后 AudioContext 可能被挂起，恢复后音量可视化才会继续
+    if (audioContextRef.current && audioContextRef.current.state !== 'running') {
+      audioContextRef.current.resume().catch(() => {});
+    }
+
+    engineRef.current.resume();
+    pausedRef.current = false;
+    startTimer();
+    startVolumeMonitor();
+    setState(prev => ({ ...prev, isPaused: false, interrupted: false, error: null }));
+  }, []);
+
+  // 切到后台、锁屏、来电时自动暂停，避免录进空白或丢掉后半段
+  const attachInterruptionListeners = (stream: MediaStream) => {
+    const interrupt = () => pauseRecording(true);
+    const handleVisibilityChange = () => {
+      if (document.hidden) interrupt();
+    };
+    // iOS Safari 来电时 AudioContext 进入 interrupted 状态
+    const handleContextStateChange = () => {
+      if (audioContextRef.current && audioContextRef.current.state !== 'running') interrupt();
+    };
+    const tracks = stream.getAudioTracks();
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    audioContextRef.current?.addEventListener('statechange', handleContextStateChange);
+    tracks.forEach((track) => {
+      track.addEventListener('mute', interrupt);
+      track.addEventListener('ended', interrupt);
+    });
+
+    detachInterruptionRef.current = () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      audioContextRef.current?.removeEventListener('statechange', handleContextStateChange);
+      tracks.forEach((track) => {
+        track.removeEventListener('mute', interrupt);
+        track.removeEventListener('ended', interrupt);
+      });
+    };
+  };
 
   // 获取麦克风权限并开始录音
-  const startRecording = useCallback(async () => {
+  const startRecording = useCallback(async (maxDuration?: number) => {
     try {
       setState(prev => ({ ...prev, error: null }));
 
-      // 请求麦克风权限
+      // 请求麦克风权限（使用检测时选择的麦克风）
       const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          sampleRate: 44100,
-        }
+        audio: getAudioConstraints(),
       });
 
       streamRef.current = stream;
@@ -66,191 +202,111 @@ export function useRecorder(): UseRecorderReturn {
       analyserRef.current.fftSize = 256;
       source.connect(analyserRef.current);
 
-      // 初始化 RecordRTC
-      recorderRef.current = new RecordRTC(stream, {
-        type: 'audio',
-        mimeType: 'audio/webm', // 简化，去掉 pcm 避免兼容性问题
-        recorderType: RecordRTC.StereoAudioRecorder,
-        numberOfAudioChannels: 1,
-        desiredSampRate: 44100,
-        disableLogs: true,
-      });
-
-      recorderRef.current.startRecording();
+      // 按浏览器能力选择录音引擎，启动失败时退回 RecordRTC
+      const input = { stream, context: audioContextRef.current, source };
+      let engine = createRecorderEngine(engineType);
+      try {
+        await engine.start(input);
+      } catch (err) {
+        if (engine.type === 'recordrtc' || engine.type === 'fake') throw err;
+        console.warn(`录音引擎 ${engine.type} 启动失败，改用 RecordRTC:`, err);
+        engine = createRecorderEngine('recordrtc');
+        await engine.start(input);
+      }
+      engineRef.current = engine;
+      console.log('🎙️ 录音引擎:', engine.type, `${audioContextRef.current.sampleRate}Hz`);
+      pausedRef.current = false;
+      elapsedRef.current = 0;
+      maxDurationRef.current = maxDuration ?? null;
 
       setState(prev => ({
         ...prev,
         isRecording: true,
         isPaused: false,
+        interrupted: false,
         recordingTime: 0,
       }));
 
-      // 开始计时（每秒更新）
-      timerRef.current = setInterval(() => {
-        setState(prev => {
-          const newTime = prev.recordingTime + 1;
-          return { ...prev, recordingTime: newTime };
-        });
-      }, 1000);
-
-      // ✅ 修复：使用 requestAnimationFrame 替代 setInterval，降低频率到 200ms
-      if (analyserRef.current) {
-        dataArrayRef.current = new Uint8Array(analyserRef.current.frequencyBinCount);
-        lastVolumeTimeRef.current = performance.now();
-        
-        const updateVolume = (timestamp: number) => {
-          if (!recorderRef.current) return; // 录音停止时退出
-          
-          if (timestamp - lastVolumeTimeRef.current > 200) { // 每 200ms 更新一次
-            lastVolumeTimeRef.current = timestamp;
-            
-            if (analyserRef.current && dataArrayRef.current) {
-              analyserRef.current.getByteFrequencyData(dataArrayRef.current as any); // ✅ 加 as any
-              const sum = dataArrayRef.current.reduce((a, b) => a + b, 0);
-              const average = sum / dataArrayRef.current.length || 0;
-              const normalizedVolume = Math.min(average / 128, 1);
-              setState(prev => ({ ...prev, volume: normalizedVolume }));
-            }
-          }
-          
-          rafRef.current = requestAnimationFrame(updateVolume);
-        };
-        
-        rafRef.current = requestAnimationFrame(updateVolume);
-      }
-
+      startTimer();
+      startVolumeMonitor();
+      attachInterruptionListeners(stream);
+      return true;
     } catch (err) {
       console.error('录音启动失败:', err);
-      let errorMessage = '无法启动录音，请检查麦克风权限';
-      
-      if (err instanceof DOMException) {
-        if (err.name === 'NotAllowedError') {
-          errorMessage = '麦克风权限被拒绝，请点击右上角"在浏览器打开"后重试';
-        } else if (err.name === 'NotFoundError') {
-          errorMessage = '未找到麦克风设备';
-        }
-      }
+      setState(prev => ({ ...prev, error: getMicErrorMessage(err) }));
+      return false;
+    }
+  }, [engineType]);
 
-      setState(prev => ({ ...prev, error: errorMessage }));
+  // 以解码得到的时长为准，超出上限的部分裁掉，保证时长校验和界面显示一致
+  const finalizeRecording = async (blob: Blob, clockDuration: number): Promise<RecordedAudio> => {
+    try {
+      const audio = await decodeToMono(blob);
+      const duration = audio.samples.length / audio.sampleRate;
+      const maxDuration = maxDurationRef.current;
+      if (maxDuration && duration > maxDuration + DURATION_TOLERANCE) {
+        console.log(`✂️ 录音超出上限 ${(duration - maxDuration).toFixed(2)} 秒，裁剪到 ${maxDuration} 秒`);
+        const trimmed = audio.samples.subarray(0, Math.round(maxDuration * audio.sampleRate));
+        return { blob: encodeWav(trimmed, audio.sampleRate), duration: maxDuration };
+      }
+      return { blob, duration };
+    } catch (err) {
+      // 无法解码时退回计时器的时长，后续编码环节会再报错
+      console.error('读取录音时长失败:', err);
+      return { blob, duration: clockDuration };
     }
-  }, []);
+  };
 
   // 停止录音
-  const stopRecording = useCallback(async (): Promise<Blob | null> => {
-    return new Promise((resolve) => {
-      // 清理计时器
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-        timerRef.current = null;
-      }
-      
-      // ✅ 修复：取消 requestAnimationFrame
-      if (rafRef.current) {
-        cancelAnimationFrame(rafRef.current);
-        rafRef.current = null;
-      }
+  const stopRecording = useCallback(async (): Promise<RecordedAudio | null> => {
+    const engine = engineRef.current;
+    const clockDuration = engine ? getElapsedSeconds() : 0;
+    // 清理计时器
+    stopTimers();
+    detachInterruptionListeners();
 
-      // 停止音频分析
-      if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
-        audioContextRef.current.close();
-      }
+    if (!engine) return null;
 
-      // 停止录音
-      if (recorderRef.current) {
-        recorderRef.current.stopRecording(() => {
-          const blob = recorderRef.current?.getBlob() || null;
-          const url = blob ? URL.createObjectURL(blob) : null;
-
-          setState(prev => ({
-            ...prev,
-            isRecording: false,
-            isPaused: false,
-            audioBlob: blob,
-            audioUrl: url,
-            volume: 0,
-          }));
-
-          // 停止所有音轨
-          if (streamRef.current) {
-            streamRef.current.getTracks().forEach(track => track.stop());
-          }
-
-          resolve(blob);
-        });
-      } else {
-        resolve(null);
-      }
-    });
-  }, []);
+    let rawBlob: Blob | null = null;
+    try {
+      rawBlob = await engine.stop();
+    } catch (err) {
+      console.error('停止录音失败:', err);
+    }
+    pausedRef.current = false;
 
-  // 暂停录音
-  const pauseRecording = useCallback(() => {
-    if (recorderRef.current && state.isRecording) {
-      recorderRef.current.pauseRecording();
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-      }
-      if (rafRef.current) {
-        cancelAnimationFrame(rafRef.current);
-        rafRef.current = null;
-      }
-      setState(prev => ({ ...prev, isPaused: true }));
+    // 停止音频分析（AudioWorklet 引擎需要在停止后才能关闭）
+    if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
+      audioContextRef.current.close();
     }
-  }, [state.isRecording]);
 
-  // 恢复录音
-  const resumeRecording = useCallback(() => {
-    if (recorderRef.current && state.isPaused) {
-      recorderRef.current.resumeRecording();
-      
-      // 恢复计时
-      timerRef.current = setInterval(() => {
-        setState(prev => {
-          const newTime = prev.recordingTime + 1;
-          return { ...prev, recordingTime: newTime };
-        });
-      }, 1000);
-      
-      // ✅ 修复：恢复音量检测（使用 RAF）
-      if (analyserRef.current) {
-        lastVolumeTimeRef.current = performance.now();
-        
-        const updateVolume = (timestamp: number) => {
-          if (!recorderRef.current) return;
-          
-          if (timestamp - lastVolumeTimeRef.current > 200) {
-            lastVolumeTimeRef.current = timestamp;
-            
-            if (analyserRef.current && dataArrayRef.current) {
-              analyserRef.current.getByteFrequencyData(dataArrayRef.current as any); // ✅ 加 as any
-              const sum = dataArrayRef.current.reduce((a, b) => a + b, 0);
-              const average = sum / dataArrayRef.current.length || 0;
-              const normalizedVolume = Math.min(average / 128, 1);
-              setState(prev => ({ ...prev, volume: normalizedVolume }));
-            }
-          }
-          
-          rafRef.current = requestAnimationFrame(updateVolume);
-        };
-        
-        rafRef.current = requestAnimationFrame(updateVolume);
-      }
-      
-      setState(prev => ({ ...prev, isPaused: false }));
+    // 停止所有音轨
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop());
     }
-  }, [state.isPaused]);
+
+    const recorded = rawBlob ? await finalizeRecording(rawBlob, clockDuration) : null;
+    const url = recorded ? URL.createObjectURL(recorded.blob) : null;
+
+    setState(prev => ({
+      ...prev,
+      isRecording: false,
+      isPaused: false,
+      interrupted: false,
+      recordingTime: recorded ? recorded.duration : prev.recordingTime,
+      audioBlob: recorded?.blob || null,
+      audioUrl: url,
+      volume: 0,
+    }));
+
+    return recorded;
+  }, []);
 
   // 重置录音状态
   const resetRecording = useCallback(() => {
     // 清理所有资源
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
-      timerRef.current = null;
-    }
-    if (rafRef.current) {
-      cancelAnimationFrame(rafRef.current);
-      rafRef.current = null;
-    }
+    stopTimers();
+    detachInterruptionListeners();
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
     }
@@ -266,6 +322,7 @@ export function useRecorder(): UseRecorderReturn {
     setState({
       isRecording: false,
       isPaused: false,
+      interrupted: false,
       recordingTime: 0,
       volume: 0,
       error: null,
@@ -273,11 +330,14 @@ export function useRecorder(): UseRecorderReturn {
       audioUrl: null,
     });
 
-    recorderRef.current = null;
+    engineRef.current = null;
     streamRef.current = null;
     audioContextRef.current = null;
     analyserRef.current = null;
     dataArrayRef.current = null;
+    pausedRef.current = false;
+    elapsedRef.current = 0;
+    maxDurationRef.current = null;
   }, [state.audioUrl]);
 
   // ✅ 确保返回对象
@@ -289,8 +349,9 @@ export function useRecorder(): UseRecorderReturn {
     resumeRecording,
     resetRecording,
     streamRef,
+    analyserRef,
   };
 }
 
 // ✅ 正确的导出位置
-export default useRecorder;
\ No newline at end of file
+export default useRecorder;
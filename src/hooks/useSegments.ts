@@ -0,0 +1,66 @@
+import { useReducer, useRef, useMemo, useEffect } from 'react';
+import type { AudioQuality } from '../utils/audio-quality';
+import { Segment, segmentReducer } from '../utils/segment-state';
+
+export interface SegmentActions {
+  startRecording: (index: number) => void;
+  recordingStopped: (index: number) => void;
+  recordingFailed: (index: number, error: string) => void;
+  recorded: (index: number, blob: Blob, quality?: AudioQuality) => number; // 返回本次录音的 takeId
+  processing: (index: number) => void;
+  uploadStarted: (index: number) => void;
+  uploadSucceeded: (index: number, uploadUrl: string | null, takeId: number | null) => void;
+  uploadFailed: (index: number, error: string) => void;
+  rerecord: (index: number) => void;
+}
+
+const isLocalUrl = (url: string | null): url is string => !!url?.startsWith('blob:');
+
+let lastTakeId = 0;
+
+// 录音编号取当前时间，同一毫秒内多次录制时顺延，保证唯一递增
+function nextTakeId(): number {
+  lastTakeId = Math.max(Date.now(), lastTakeId + 1);
+  return lastTakeId;
+}
+
+/**
+ * 录音段状态：状态变化交给 segmentReducer，这里负责试听地址的创建与释放
+ */
+export function useSegments(initialSegments: () => Segment[]): [Segment[], SegmentActions] {
+  const [segments, dispatch] = useReducer(segmentReducer, undefined, initialSegments);
+  // 本地创建的试听地址（包括恢复会话时创建的），不再被任何段引用时释放
+  const localUrlsRef = useRef<Set<string>>(new Set(segments.map(segment => segment.url).filter(isLocalUrl)));
+
+  useEffect(() => {
+    const inUse = new Set(segments.map(segment => segment.url));
+    localUrlsRef.current.forEach((url) => {
+      if (!inUse.has(url)) {
+        URL.revokeObjectURL(url);
+        localUrlsRef.current.delete(url);
+      }
+    });
+  }, [segments]);
+
+  const actions = useMemo<SegmentActions>(() => ({
+    startRecording: (index) => dispatch({ type: 'START_RECORDING', index }),
+    recordingStopped: (index) => dispatch({ type: 'RECORDING_STOPPED', index }),
+    recordingFailed: (index, error) => dispatch({ type: 'RECORDING_FAILED', index, error }),
+    recorded: (index, blob, quality) => {
+      const url = URL.createObjectURL(blob);
+      localUrlsRef.current.add(url);
+      const takeId = nextTakeId();
+      dispatch({ type: 'RECORDED', index, blob, url, takeId, quality });
+      return takeId;
+    },
+    processing: (index) => dispatch({ type: 'PROCESSING', index }),
+    uploadStarted: (index) => dispatch({ type: 'UPLOAD_STARTED', index }),
+    uploadSucceeded: (index, uploadUrl, takeId) => dispatch({ type: 'UPLOAD_SUCCEEDED', index, uploadUrl, takeId }),
+    uploadFailed: (index, error) => dispatch({ type: 'UPLOAD_FAILED', index, error }),
+    rerecord: (index) => dispatch({ type: 'RERECORD', index }),
+  }), []);
+
+  return [segments, actions];
+}
+
+export default useSegments;
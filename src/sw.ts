@@ -0,0 +1,268 @@
+/// <reference lib="webworker" />
+// Service Worker for 亲声胶囊 PWA
+// 由 vite-plugin-pwa（injectManifest）编译为 /sw.js，并注入构建产物的预缓存清单
+
+import { cleanupOutdatedCaches, matchPrecache, precache, PrecacheEntry } from 'workbox-precaching';
+import { openDB, UPLOAD_QUEUE_STORE } from './utils/db';
+import { isPermanentFailure, QueuedUpload, SYNC_TAG, UPLOADED_MESSAGE } from './utils/upload-queue';
+
+declare let self: ServiceWorkerGlobalScope & { __WB_MANIFEST: (PrecacheEntry | string)[] };
+
+interface SyncEvent extends ExtendableEvent {
+  tag: string;
+}
+
+const CACHE_NAME = 'voice-capsule-v2';
+// 应用外壳：所有页面（包括分享链接 /play/:taskId）离线时都由它渲染，随构建产物预缓存
+const APP_SHELL = '/index.html';
+const STATIC_ASSETS = [
+  '/manifest.json',
+];
+// 图标缺失不应导致应用外壳缓存失败（cache.addAll 是原子操作）
+const OPTIONAL_ASSETS = [
+  '/icons/icon-192x192.png',
+  '/icons/icon-512x512.png',
+];
+
+// 预缓存构建产物（带哈希的 JS/CSS 等），由下面的网络优先策略在离线时取用
+precache(self.__WB_MANIFEST);
+cleanupOutdatedCaches();
+
+// 安装时缓存静态资源
+self.addEventListener('install', (event) => {
+  console.log('Service Worker installing...');
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => {
+        console.log('Caching static assets');
+        return cache.addAll(STATIC_ASSETS).then(() =>
+          Promise.all(
+            OPTIONAL_ASSETS.map((asset) =>
+              cache.add(asset).catch(() => console.warn('Optional asset not cached:', asset))
+            )
+          )
+        );
+      })
+      .catch((err) => {
+        console.error('Cache failed:', err);
+      })
+  );
+  self.skipWaiting();
+});
+
+// 激活时清理旧缓存（预缓存由 workbox 自己管理，不能删）
+self.addEventListener('activate', (event) => {
+  console.log('Service Worker activating...');
+  event.waitUntil(
+    caches.keys().then((cacheNames) => {
+      return Promise.all(
+        cacheNames
+          .filter((name) => name.startsWith('voice-capsule-') && name !== CACHE_NAME)
+          .map((name) => {
+            console.log('Deleting old cache:', name);
+            return caches.delete(name);
+          })
+      );
+    })
+  );
+  self.clients.claim();
+});
+
+// 拦截请求
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  // 跳过非GET请求
+  if (request.method !== 'GET') {
+    return;
+  }
+
+  // 跳过API请求
+  if (url.pathname.startsWith('/api/')) {
+    return;
+  }
+
+  // 跳过音频文件（太大，不适合缓存）
+  if (url.pathname.match(/\.(webm|mp3|wav|ogg)$/)) {
+    return;
+  }
+
+  // 网络优先策略（适合经常更新的资源）
+  event.respondWith(
+    fetch(request)
+      .then((response) => {
+        // 缓存成功的响应
+        if (response.status === 200) {
+          const responseClone = response.clone();
+          caches.open(CACHE_NAME).then((cache) => {
+            cache.put(request, responseClone);
+          });
+        }
+        return response;
+      })
+      .catch(async () => {
+        // 页面导航（如收礼人打开 /play/:taskId）返回预缓存的应用外壳，由前端路由渲染；
+        // 不用运行时缓存里的旧页面，它引用的带哈希资源可能已被清理
+        if (request.mode === 'navigate') {
+          const shell = await matchPrecache(APP_SHELL);
+          if (shell) {
+            return shell;
+          }
+        }
+        // 网络失败时从缓存获取，运行时缓存没有的再查预缓存
+        const cachedResponse = (await caches.match(request)) || (await matchPrecache(request));
+        return cachedResponse || new Response('Offline', { status: 503 });
+      })
+  );
+});
+
+// 后台同步（用于离线时上传录音）
+self.addEventListener('sync', (event) => {
+  const syncEvent = event as SyncEvent;
+  if (syncEvent.tag === SYNC_TAG) {
+    console.log('Background sync: upload-audio');
+    syncEvent.waitUntil(uploadPendingAudio());
+  }
+});
+
+// 页面不支持后台同步时（如 iOS Safari），由页面直接通知处理上传队列
+self.addEventListener('message', (event) => {
+  if (event.data?.type === SYNC_TAG) {
+    event.waitUntil(uploadPendingAudio());
+  }
+});
+
+// 推送通知
+self.addEventListener('push', (event) => {
+  const data = event.data?.json() || {};
+  const options: NotificationOptions & { actions: { action: string; title: string }[] } = {
+    body: data.body || '你的声音胶囊已制作完成！',
+    icon: '/icons/icon-192x192.png',
+    badge: '/icons/icon-72x72.png',
+    tag: data.tag || 'voice-capsule',
+    requireInteraction: true,
+    actions: [
+      {
+        action: 'open',
+        title: '查看',
+      },
+      {
+        action: 'close',
+        title: '关闭',
+      },
+    ],
+  };
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || '亲声胶囊', options)
+  );
+});
+
+// 通知点击处理
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+
+  if (event.action === 'open' || !event.action) {
+    event.waitUntil(
+      self.clients.openWindow('/')
+    );
+  }
+});
+
+function getQueuedUploads(db: IDBDatabase): Promise<QueuedUpload[]> {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(UPLOAD_QUEUE_STORE, 'readonly').objectStore(UPLOAD_QUEUE_STORE).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function updateQueue(db: IDBDatabase, update: (store: IDBObjectStore) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(UPLOAD_QUEUE_STORE, 'readwrite');
+    update(tx.objectStore(UPLOAD_QUEUE_STORE));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+// 通知所有页面：某段已补传成功
+async function notifyUploaded(item: QueuedUpload) {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  windows.forEach((client) => {
+    client.postMessage({
+      type: UPLOADED_MESSAGE,
+      taskId: item.taskId,
+      segmentIndex: item.segmentIndex,
+      takeId: item.takeId,
+      url: item.url,
+      key: item.key,
+    });
+  });
+}
+
+// 正在进行的补传：后台同步和页面消息可能同时触发，共用同一次处理，避免同一段重复提交
+let uploading: Promise<void> | null = null;
+
+// 上传待处理的音频（后台同步）
+function uploadPendingAudio(): Promise<void> {
+  if (!uploading) {
+    uploading = flushPendingAudio().finally(() => {
+      uploading = null;
+    });
+  }
+  return uploading;
+}
+
+async function flushPendingAudio() {
+  console.log('Uploading pending audio...');
+  const db = await openDB();
+  const items = (await getQueuedUploads(db)).filter((item) => item.status === 'pending' && item.blob);
+  let failed = 0;
+
+  for (const item of items) {
+    try {
+      // 与 uploadViaBackend 相同的表单字段
+      const formData = new FormData();
+      formData.append('audio', item.blob!, item.fileName);
+      formData.append('task_id', item.taskId);
+      formData.append('segment_index', String(item.segmentIndex));
+      Object.entries(item.fields || {}).forEach(([name, value]) => formData.append(name, value));
+
+      const response = await fetch(item.endpoint, {
+        method: 'POST',
+        body: formData,
+      });
+      // 4xx（文件过大、任务失效等）重传也不会成功，移出队列，由页面上重录或重试
+      if (isPermanentFailure(response.status)) {
+        console.warn('Pending audio rejected, dropped from queue:', item.id, response.status);
+        await updateQueue(db, (store) => store.delete(item.id));
+        continue;
+      }
+      if (!response.ok) {
+        throw new Error(`Upload failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+      // 保留结果直到页面确认，页面关闭期间完成的补传在下次打开时仍能同步状态
+      const uploaded: QueuedUpload = { ...item, blob: null, status: 'uploaded', url: data.url, key: data.key };
+      await updateQueue(db, (store) => store.put(uploaded));
+      await notifyUploaded(uploaded);
+      console.log('Pending audio uploaded:', item.id);
+    } catch (err) {
+      failed++;
+      console.error('Pending audio upload failed:', item.id, err);
+      await updateQueue(db, (store) => store.put({ ...item, attempts: item.attempts + 1 }));
+    }
+  }
+
+  db.close();
+
+  // 有失败项时抛出，让浏览器稍后重试同步
+  if (failed > 0) {
+    throw new Error(`${failed} pending audio upload(s) failed`);
+  }
+}
+
+console.log('Service Worker loaded');
@@ -0,0 +1,29 @@
+/**
+ * 测试用时钟
+ * 录音计时基于 performance.now 和定时器，统一换成假时钟；
+ * jsdom 的 FileReader 等内部异步任务仍走真实事件循环，推进时间时每一步都让出一次
+ */
+
+import { vi } from 'vitest';
+import { act } from '@testing-library/react';
+
+const realSetTimeout = globalThis.setTimeout;
+const STEP_MS = 50;
+
+export function useFakeClock() {
+  vi.useFakeTimers({
+    toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'performance', 'requestAnimationFrame', 'cancelAnimationFrame'],
+  });
+}
+
+/**
+ * 推进假时钟，期间等待真实的异步任务（解码、编码、上传回调）完成
+ */
+export async function advance(ms: number) {
+  for (let elapsed = 0; elapsed < ms; elapsed += STEP_MS) {
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(Math.min(STEP_MS, ms - elapsed));
+      await new Promise(resolve => realSetTimeout(resolve, 0));
+    });
+  }
+}
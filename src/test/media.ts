@@ -0,0 +1,239 @@
+/**
+ * 测试用的麦克风与 Web Audio 假实现
+ * jsdom 没有 getUserMedia、AudioContext，这里只实现录音流程用到的部分：
+ * 解码只支持 encodeWav 写出的 16 位 PCM WAV，足够让假录音引擎的输出走完整条流程
+ */
+
+import { vi } from 'vitest';
+
+export class FakeMediaStreamTrack extends EventTarget {
+  readonly kind = 'audio';
+  readyState: MediaStreamTrackState = 'live';
+  enabled = true;
+
+  stop() {
+    this.readyState = 'ended';
+  }
+
+  getSettings(): MediaTrackSettings {
+    return { deviceId: 'fake-mic', sampleRate: 44100 };
+  }
+}
+
+export class FakeMediaStream {
+  private readonly tracks = [new FakeMediaStreamTrack()];
+
+  getTracks() {
+    return this.tracks;
+  }
+
+  getAudioTracks() {
+    return this.tracks;
+  }
+}
+
+class FakeAudioNode {
+  connect(destination?: unknown) {
+    return destination;
+  }
+
+  disconnect() {}
+}
+
+class FakeAudioParam {
+  constructor(public value: number) {}
+  setValueAtTime(value: number) {
+    this.value = value;
+    return this;
+  }
+  setTargetAtTime(value: number) {
+    this.value = value;
+    return this;
+  }
+  linearRampToValueAtTime(value: number) {
+    this.value = value;
+    return this;
+  }
+}
+
+export class FakeAnalyserNode extends FakeAudioNode {
+  fftSize = 2048;
+  smoothingTimeConstant = 0.8;
+  level = 0.25; // 模拟的输入电平 0-1
+
+  get frequencyBinCount() {
+    return this.fftSize / 2;
+  }
+
+  getByteFrequencyData(array: Uint8Array) {
+    array.fill(Math.round(this.level * 255));
+  }
+
+  getByteTimeDomainData(array: Uint8Array) {
+    array.fill(128);
+  }
+
+  getFloatTimeDomainData(array: Float32Array) {
+    for (let i = 0; i < array.length; i++) array[i] = this.level * Math.sin(i / 8);
+  }
+}
+
+export class FakeAudioBuffer {
+  readonly numberOfChannels = 1;
+
+  constructor(private readonly samples: Float32Array, readonly sampleRate: number) {}
+
+  get length() {
+    return this.samples.length;
+  }
+
+  get duration() {
+    return this.samples.length / this.sampleRate;
+  }
+
+  getChannelData() {
+    return this.samples;
+  }
+}
+
+/**
+ * 解析 16 位 PCM 单声道 WAV
+ */
+export function decodeWav(buffer: ArrayBuffer): FakeAudioBuffer {
+  const view = new DataView(buffer);
+  const tag = String.fromCharCode(...new Uint8Array(buffer, 0, 4));
+  if (buffer.byteLength < 44 || tag !== 'RIFF') {
+    throw new DOMException('Unable to decode audio data', 'EncodingError');
+  }
+  const sampleRate = view.getUint32(24, true);
+  const samples = new Float32Array(view.getUint32(40, true) / 2);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = view.getInt16(44 + i * 2, true) / 0x8000;
+  }
+  return new FakeAudioBuffer(samples, sampleRate);
+}
+
+export class FakeAudioContext extends EventTarget {
+  state: AudioContextState = 'running';
+  sampleRate = 44100;
+  currentTime = 0;
+  readonly destination = new FakeAudioNode();
+  readonly audioWorklet = { addModule: vi.fn(() => Promise.reject(new Error('AudioWorklet 不可用'))) };
+
+  createMediaStreamSource() {
+    return new FakeAudioNode();
+  }
+
+  createAnalyser() {
+    return new FakeAnalyserNode();
+  }
+
+  createGain() {
+    return Object.assign(new FakeAudioNode(), { gain: new FakeAudioParam(1) });
+  }
+
+  decodeAudioData(
+    data: ArrayBuffer,
+    onSuccess?: (buffer: AudioBuffer) => void,
+    onError?: (error: DOMException) => void
+  ): Promise<AudioBuffer> {
+    try {
+      const buffer = decodeWav(data) as unknown as AudioBuffer;
+      onSuccess?.(buffer);
+      return Promise.resolve(buffer);
+    } catch (error) {
+      onError?.(error as DOMException);
+      return Promise.reject(error);
+    }
+  }
+
+  resume() {
+    this.state = 'running';
+    return Promise.resolve();
+  }
+
+  suspend() {
+    this.state = 'suspended';
+    return Promise.resolve();
+  }
+
+  close() {
+    this.state = 'closed';
+    return Promise.resolve();
+  }
+}
+
+export class FakeOfflineAudioContext extends FakeAudioContext {
+  constructor(_channels: number, readonly length: number, sampleRate: number) {
+    super();
+    this.sampleRate = sampleRate;
+  }
+}
+
+/**
+ * RecordRTC 假实现：停止后返回一秒静音 WAV，配合 vi.mock('recordrtc') 使用
+ */
+export class FakeRecordRTC {
+  static StereoAudioRecorder = function StereoAudioRecorder() {};
+  state: 'inactive' | 'recording' | 'paused' | 'stopped' = 'inactive';
+
+  constructor(_stream: unknown, readonly options: Record<string, unknown>) {}
+
+  startRecording() {
+    this.state = 'recording';
+  }
+
+  pauseRecording() {
+    this.state = 'paused';
+  }
+
+  resumeRecording() {
+    this.state = 'recording';
+  }
+
+  stopRecording(callback?: () => void) {
+    this.state = 'stopped';
+    callback?.();
+  }
+
+  getBlob() {
+    const sampleRate = 44100;
+    const buffer = new ArrayBuffer(44 + sampleRate * 2);
+    const view = new DataView(buffer);
+    [...'RIFF'].forEach((char, i) => view.setUint8(i, char.charCodeAt(0)));
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(40, sampleRate * 2, true);
+    return new Blob([buffer], { type: 'audio/wav' });
+  }
+}
+
+/**
+ * 安装假麦克风与 Web Audio，返回 getUserMedia 的 mock 便于断言
+ */
+export function installMediaFakes() {
+  const getUserMedia = vi.fn(async () => new FakeMediaStream() as unknown as MediaStream);
+  Object.defineProperty(navigator, 'mediaDevices', {
+    configurable: true,
+    value: {
+      getUserMedia,
+      enumerateDevices: vi.fn(async () => []),
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+    },
+  });
+  vi.stubGlobal('AudioContext', FakeAudioContext);
+  vi.stubGlobal('OfflineAudioContext', FakeOfflineAudioContext);
+  return { getUserMedia };
+}
+
+/**
+ * 模拟一次后端 JSON 响应
+ */
+export function mockFetchResponse(body: unknown, status: number = 200) {
+  const fetchMock = vi.fn(async () => new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
@@ -0,0 +1,182 @@
+/**
+ * 能真正渲染的 OfflineAudioContext 假实现
+ * media.ts 的假 Web Audio 只让录音流程走通，不处理声音；这里按 Web Audio 规范逐采样计算，
+ * 支持从 0 秒开始播放的缓冲区音源串联双二阶滤波、波形整形和增益，足够检验人声效果的滤波链
+ */
+
+import { FakeAudioBuffer } from './media';
+
+class RenderParam {
+  constructor(public value: number) {}
+}
+
+class RenderNode {
+  next: RenderNode | null = null;
+
+  connect<T extends RenderNode>(destination: T): T {
+    this.next = destination;
+    return destination;
+  }
+
+  disconnect() {
+    this.next = null;
+  }
+
+  process(input: Float32Array): Float32Array {
+    return input;
+  }
+}
+
+class RenderBufferSource extends RenderNode {
+  buffer: FakeAudioBuffer | null = null;
+  started = false;
+
+  start(when = 0) {
+    if (when !== 0) throw new Error('只支持从 0 秒开始播放');
+    this.started = true;
+  }
+}
+
+class RenderGain extends RenderNode {
+  readonly gain = new RenderParam(1);
+
+  process(input: Float32Array) {
+    return input.map(sample => sample * this.gain.value);
+  }
+}
+
+class RenderWaveShaper extends RenderNode {
+  curve: Float32Array | null = null;
+
+  // 规范中不过采样时的曲线插值
+  process(input: Float32Array) {
+    const { curve } = this;
+    if (!curve) return input;
+    const last = curve.length - 1;
+    return input.map(sample => {
+      const v = (last * (sample + 1)) / 2;
+      if (v <= 0) return curve[0];
+      if (v >= last) return curve[last];
+      const k = Math.floor(v);
+      const f = v - k;
+      return (1 - f) * curve[k] + f * curve[k + 1];
+    });
+  }
+}
+
+class RenderBiquadFilter extends RenderNode {
+  type: BiquadFilterType = 'lowpass';
+  readonly frequency = new RenderParam(350);
+  readonly gain = new RenderParam(0);
+  readonly Q = new RenderParam(1);
+
+  constructor(private readonly sampleRate: number) {
+    super();
+  }
+
+  // 规范给出的系数（Audio EQ Cookbook），高通/低通的 Q 以 dB 为单位
+  private coefficients(): [number, number, number, number, number, number] {
+    const w0 = (2 * Math.PI * this.frequency.value) / this.sampleRate;
+    const cos = Math.cos(w0);
+    const A = 10 ** (this.gain.value / 40);
+    const alphaQ = Math.sin(w0) / (2 * this.Q.value);
+    const alphaQdB = Math.sin(w0) / (2 * 10 ** (this.Q.value / 20));
+    const alphaS = (Math.sin(w0) / 2) * Math.SQRT2; // 斜率 S = 1
+    const sqrtA2 = 2 * alphaS * Math.sqrt(A);
+
+    switch (this.type) {
+      case 'lowpass':
+        return [(1 - cos) / 2, 1 - cos, (1 - cos) / 2, 1 + alphaQdB, -2 * cos, 1 - alphaQdB];
+      case 'highpass':
+        return [(1 + cos) / 2, -(1 + cos), (1 + cos) / 2, 1 + alphaQdB, -2 * cos, 1 - alphaQdB];
+      case 'peaking':
+        return [1 + alphaQ * A, -2 * cos, 1 - alphaQ * A, 1 + alphaQ / A, -2 * cos, 1 - alphaQ / A];
+      case 'lowshelf':
+        return [
+          A * (A + 1 - (A - 1) * cos + sqrtA2),
+          2 * A * (A - 1 - (A + 1) * cos),
+          A * (A + 1 - (A - 1) * cos - sqrtA2),
+          A + 1 + (A - 1) * cos + sqrtA2,
+          -2 * (A - 1 + (A + 1) * cos),
+          A + 1 + (A - 1) * cos - sqrtA2,
+        ];
+      case 'highshelf':
+        return [
+          A * (A + 1 + (A - 1) * cos + sqrtA2),
+          -2 * A * (A - 1 + (A + 1) * cos),
+          A * (A + 1 + (A - 1) * cos - sqrtA2),
+          A + 1 - (A - 1) * cos + sqrtA2,
+          2 * (A - 1 - (A + 1) * cos),
+          A + 1 - (A - 1) * cos - sqrtA2,
+        ];
+      default:
+        throw new Error(`不支持的滤波类型: ${this.type}`);
+    }
+  }
+
+  process(input: Float32Array) {
+    const [b0, b1, b2, a0, a1, a2] = this.coefficients();
+    const output = new Float32Array(input.length);
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+    for (let i = 0; i < input.length; i++) {
+      const x = input[i];
+      const y = (b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2) / a0;
+      output[i] = y;
+      x2 = x1;
+      x1 = x;
+      y2 = y1;
+      y1 = y;
+    }
+    return output;
+  }
+}
+
+export class RenderingOfflineAudioContext {
+  readonly destination = new RenderNode();
+  private readonly sources: RenderBufferSource[] = [];
+
+  constructor(_channels: number, readonly length: number, readonly sampleRate: number) {}
+
+  createBuffer(_channels: number, length: number, sampleRate: number) {
+    return new FakeAudioBuffer(new Float32Array(length), sampleRate);
+  }
+
+  createBufferSource() {
+    const source = new RenderBufferSource();
+    this.sources.push(source);
+    return source;
+  }
+
+  createBiquadFilter() {
+    return new RenderBiquadFilter(this.sampleRate);
+  }
+
+  createWaveShaper() {
+    return new RenderWaveShaper();
+  }
+
+  createGain() {
+    return new RenderGain();
+  }
+
+  // 每个音源沿连接依次处理，到达 destination 的叠加为输出
+  async startRendering() {
+    const output = new Float32Array(this.length);
+    this.sources.forEach(source => {
+      if (!source.started || !source.buffer) return;
+      let signal: Float32Array = new Float32Array(this.length);
+      signal.set(source.buffer.getChannelData().subarray(0, this.length));
+      let node = source.next;
+      while (node && node !== this.destination) {
+        signal = node.process(signal);
+        node = node.next;
+      }
+      if (node === this.destination) {
+        signal.forEach((sample, i) => {
+          output[i] += sample;
+        });
+      }
+    });
+    return new FakeAudioBuffer(output, this.sampleRate);
+  }
+}
@@ -0,0 +1,35 @@
+import { afterEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+// jsdom 没有 blob URL
+let objectUrlId = 0;
+URL.createObjectURL = vi.fn(() => `blob:fake/${++objectUrlId}`);
+URL.revokeObjectURL = vi.fn();
+
+// jsdom 未实现 canvas，可视化组件拿不到绘图上下文时直接跳过
+HTMLCanvasElement.prototype.getContext = vi.fn(() => null) as unknown as HTMLCanvasElement['getContext'];
+
+// jsdom 的 Blob 没有 arrayBuffer()，解码录音、计算录音指纹时需要
+// 测试环境的全局 ArrayBuffer 来自 jsdom，Node 的 crypto.subtle 不认，复制到 Node 的 Buffer 中返回
+if (!Blob.prototype.arrayBuffer) {
+  Blob.prototype.arrayBuffer = function arrayBuffer(this: Blob) {
+    return new Promise<ArrayBuffer>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => {
+        const bytes = new Uint8Array(reader.result as ArrayBuffer);
+        const copy = Buffer.alloc(bytes.length);
+        copy.set(bytes);
+        resolve(copy.buffer as ArrayBuffer);
+      };
+      reader.onerror = () => reject(reader.error);
+      reader.readAsArrayBuffer(this);
+    });
+  };
+}
+
+afterEach(() => {
+  cleanup();
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  localStorage.clear();
+});
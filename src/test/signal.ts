@@ -0,0 +1,40 @@
+/**
+ * 测试用的合成信号与测量工具
+ * 用纯音检验滤波、降噪等处理对指定频率的增益
+ */
+
+export const SAMPLE_RATE = 44100;
+
+export function tone(frequency: number, amplitude: number, seconds: number, sampleRate: number = SAMPLE_RATE): Float32Array {
+  const samples = new Float32Array(Math.round(seconds * sampleRate));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+  }
+  return samples;
+}
+
+export function rms(samples: Float32Array, start = 0, end = samples.length): number {
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / (end - start));
+}
+
+// 指定频率分量的幅度（与正弦、余弦做相关）
+export function amplitudeAt(
+  samples: Float32Array,
+  frequency: number,
+  start: number,
+  end: number,
+  sampleRate: number = SAMPLE_RATE
+): number {
+  let re = 0;
+  let im = 0;
+  for (let i = start; i < end; i++) {
+    const phase = (2 * Math.PI * frequency * i) / sampleRate;
+    re += samples[i] * Math.cos(phase);
+    im += samples[i] * Math.sin(phase);
+  }
+  return (2 * Math.hypot(re, im)) / (end - start);
+}
+
+export const toDb = (ratio: number) => 20 * Math.log10(ratio);
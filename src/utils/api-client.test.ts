@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from 'vitest';
+import { apiRequest, fetchTask, getErrorMessage, parseApiResponse, toCamelCase, validateUploadedFile, verifyOrder } from './api-client';
+import { DEFAULT_TEMPLATE } from './capsule-template';
+import { mockFetchResponse } from '../test/media';
+
+describe('toCamelCase', () => {
+  it('递归转换嵌套对象和数组中的键名', () => {
+    expect(toCamelCase({
+      task_id: 't1',
+      segments: [{ segment_index: 0, upload_url: 'a.mp3' }, [{ loudness_lufs: -16 }]],
+      template: { max_duration: 30, source: { track_id: 'warm-pad' } },
+    })).toEqual({
+      taskId: 't1',
+      segments: [{ segmentIndex: 0, uploadUrl: 'a.mp3' }, [{ loudnessLufs: -16 }]],
+      template: { maxDuration: 30, source: { trackId: 'warm-pad' } },
+    });
+  });
+
+  it('camelCase、PascalCase 键和原始值保持不变', () => {
+    expect(toCamelCase({ taskId: 1, TmpSecretId: 'id', list: [1, 'a', null] })).toEqual({ taskId: 1, TmpSecretId: 'id', list: [1, 'a', null] });
+    expect(toCamelCase('some_text')).toBe('some_text');
+  });
+});
+
+describe('parseApiResponse', () => {
+  it('HTTP 200 但 success 为 false 时按业务失败处理，错误码为 HTTP_200', () => {
+    const result = parseApiResponse(200, JSON.stringify({ success: false, message: '订单已过期' }), validateUploadedFile);
+
+    expect(result).toEqual({ success: false, code: 'HTTP_200', status: undefined, error: '订单已过期' });
+  });
+
+  it('已知错误码换成对应提示，优先于后端 message', () => {
+    const result = parseApiResponse(404, JSON.stringify({ success: false, error_code: 'ORDER_NOT_FOUND', message: 'not found' }), validateUploadedFile);
+
+    expect(result).toMatchObject({ success: false, code: 'ORDER_NOT_FOUND', status: 404, error: '订单不存在，请检查订单号' });
+  });
+
+  it('非 JSON 正文按 HTTP 状态给出提示', () => {
+    expect(parseApiResponse(502, '<html>Bad Gateway</html>', validateUploadedFile)).toMatchObject({
+      success: false,
+      code: 'HTTP_502',
+      error: '服务器繁忙，请稍后重试',
+    });
+  });
+
+  it('结构不符合预期时返回 INVALID_RESPONSE', () => {
+    expect(parseApiResponse(200, JSON.stringify({ success: true }), validateUploadedFile)).toMatchObject({
+      success: false,
+      code: 'INVALID_RESPONSE',
+    });
+  });
+});
+
+describe('getErrorMessage', () => {
+  it('错误码、自定义状态提示、后端提示、通用状态提示依次降级', () => {
+    expect(getErrorMessage('MOBILE_MISMATCH', 400, '手机号错误')).toBe('手机号后4位与订单不匹配');
+    expect(getErrorMessage('HTTP_404', 404, 'not found', { 404: '声音胶囊不存在或已失效' })).toBe('声音胶囊不存在或已失效');
+    expect(getErrorMessage('HTTP_400', 400, '缺少 order_sn')).toBe('缺少 order_sn');
+    expect(getErrorMessage('HTTP_413', 413)).toBe('录音文件过大，请重新录制');
+    expect(getErrorMessage('HTTP_503', 503)).toBe('服务器繁忙，请稍后重试');
+  });
+});
+
+describe('apiRequest', () => {
+  it('超时后中止请求并返回 TIMEOUT', async () => {
+    vi.useFakeTimers();
+    // 一直不返回，直到请求被中止
+    vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal!.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    })));
+
+    const pending = apiRequest('/api/slow', { timeout: 1000, validate: validateUploadedFile });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(await pending).toMatchObject({ success: false, code: 'TIMEOUT', error: '请求超时，请检查网络后重试' });
+  });
+
+  it('fetch 失败时返回 NETWORK_ERROR', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      throw new TypeError('Failed to fetch');
+    }));
+
+    expect(await apiRequest('/api/any', { validate: validateUploadedFile })).toMatchObject({ success: false, code: 'NETWORK_ERROR' });
+  });
+});
+
+describe('verifyOrder', () => {
+  it('接受 snake_case 的数字 task_id', async () => {
+    mockFetchResponse({ success: true, task_id: 123, buyer_name: '小王' });
+
+    expect(await verifyOrder('SN1', '1234')).toEqual({
+      success: true,
+      data: { taskId: '123', buyerName: '小王', template: DEFAULT_TEMPLATE },
+    });
+  });
+
+  it('缺少 taskId 时返回 INVALID_RESPONSE', async () => {
+    mockFetchResponse({ success: true });
+
+    expect(await verifyOrder('SN1', '1234')).toMatchObject({ success: false, code: 'INVALID_RESPONSE' });
+  });
+});
+
+describe('fetchTask', () => {
+  it('解析模板和背景音乐，兼容 snake_case 字段', async () => {
+    mockFetchResponse({
+      segments: [{ segment_index: 0, upload_url: 'https://cdn.example/0.mp3', loudness_lufs: '-18.5' }],
+      template: { id: 7, theme: 'birthday', segments: [{ prompt: '生日快乐', max_duration: 30 }] },
+      music: { source: { type: 'bundled', track_id: 'warm-pad' }, level: 2 },
+    });
+
+    const result = await fetchTask('task-1');
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        segments: [{ id: 0, uploadUrl: 'https://cdn.example/0.mp3', loudnessLufs: -18.5 }],
+        template: { id: '7', name: '声音胶囊', theme: 'birthday', segments: [{ prompt: '生日快乐', maxDuration: 30, minDuration: 0 }] },
+        music: { source: { type: 'bundled', trackId: 'warm-pad' }, level: 1 },
+      },
+    });
+  });
+
+  it('模板和背景音乐结构无效时分别回退为默认模板和 null', async () => {
+    mockFetchResponse({
+      segments: [],
+      template: { segments: [null, 'intro'] },
+      music: { source: { type: 'bundled', trackId: 'missing-track' } },
+    });
+
+    const result = await fetchTask('task-1');
+
+    expect(result).toMatchObject({ success: true, data: { template: DEFAULT_TEMPLATE, music: null } });
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * 后端接口客户端
+ * 所有接口请求都经过这里：统一超时、把 snake_case 字段转为 camelCase、校验响应结构，
+ * 并把错误码和 HTTP 状态换成用户能看懂的提示
+ */
+
+import type { COSCredentials } from './cos-upload';
+import { CapsuleTemplate, parseTemplate } from './capsule-template';
+import { MusicSettings, parseMusicSettings } from './background-music';
+
+export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'https://voice-capsule-api.vercel.app';
+const DEFAULT_TIMEOUT = 15000; // 普通接口15秒超时
+
+export type ApiResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string; code: string; status?: number };
+
+// 校验并整理已转为 camelCase 的响应，结构不符时返回 null
+export type Validator<T> = (data: Record<string, unknown>) => T | null;
+
+export interface ApiRequestOptions<T> {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  body?: unknown; // 按 JSON 发送，字段命名由调用方决定
+  timeout?: number;
+  validate: Validator<T>;
+  statusMessages?: Record<number, string>; // 覆盖个别状态码的提示，如 404
+}
+
+// 后端约定的错误码，未列出的错误码使用后端返回的 message
+const ERROR_MESSAGES: Record<string, string> = {
+  TIMEOUT: '请求超时，请检查网络后重试',
+  NETWORK_ERROR: '网络错误，请稍后重试',
+  INVALID_RESPONSE: '服务器返回的数据异常，请稍后重试',
+  ORDER_NOT_FOUND: '订单不存在，请检查订单号',
+  MOBILE_MISMATCH: '手机号后4位与订单不匹配',
+  TASK_NOT_FOUND: '声音胶囊不存在或已失效',
+  FILE_TOO_LARGE: '录音文件过大，请重新录制',
+  RATE_LIMITED: '操作太频繁，请稍后再试',
+};
+
+const STATUS_MESSAGES: Record<number, string> = {
+  400: '请求参数有误，请刷新页面后重试',
+  401: '验证已失效，请重新验证订单',
+  403: '验证已失效，请重新验证订单',
+  404: '请求的内容不存在',
+  413: ERROR_MESSAGES.FILE_TOO_LARGE,
+  429: ERROR_MESSAGES.RATE_LIMITED,
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * 拼接接口完整地址，供 XHR 上传和 Service Worker 使用
+ */
+export function apiUrl(path: string): string {
+  return `${API_BASE_URL}${path}`;
+}
+
+/**
+ * 递归把对象键名从 snake_case 转为 camelCase，已是 camelCase 或 PascalCase 的键保持不变
+ */
+export function toCamelCase(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(toCamelCase);
+  }
+  if (!isObject(value)) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key.replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase()),
+      toCamelCase(item),
+    ])
+  );
+}
+
+/**
+ * 错误码优先，其次后端返回的提示，最后按 HTTP 状态给出通用提示
+ */
+export function getErrorMessage(
+  code?: string,
+  status?: number,
+  serverMessage?: string,
+  statusMessages: Record<number, string> = {}
+): string {
+  if (code && ERROR_MESSAGES[code]) return ERROR_MESSAGES[code];
+  if (status && statusMessages[status]) return statusMessages[status];
+  if (serverMessage) return serverMessage;
+  if (status && STATUS_MESSAGES[status]) return STATUS_MESSAGES[status];
+  if (status && status >= 500) return '服务器繁忙，请稍后重试';
+  return '请求失败，请稍后重试';
+}
+
+function failure<T>(code: string, status?: number, serverMessage?: string, statusMessages?: Record<number, string>): ApiResult<T> {
+  return { success: false, code, status, error: getErrorMessage(code, status, serverMessage, statusMessages) };
+}
+
+/**
+ * 解析响应正文：fetch 和 XHR 上传共用
+ */
+export function parseApiResponse<T>(
+  status: number,
+  text: string,
+  validate: Validator<T>,
+  statusMessages?: Record<number, string>
+): ApiResult<T> {
+  let data: unknown = null;
+  try {
+    data = text ? toCamelCase(JSON.parse(text)) : {};
+  } catch {
+    // 网关错误页等非 JSON 正文，按状态码处理
+  }
+
+  const ok = status >= 200 && status < 300;
+  const body = isObject(data) ? data : null;
+  if (!ok || body?.success === false) {
+    const code = typeof body?.code === 'string' ? body.code : typeof body?.errorCode === 'string' ? body.errorCode : `HTTP_${status}`;
+    const message = typeof body?.message === 'string' ? body.message : typeof body?.error === 'string' ? body.error : undefined;
+    return failure(code, ok ? undefined : status, message, statusMessages);
+  }
+
+  const result = body ? validate(body) : null;
+  if (result === null) {
+    console.error('接口返回结构不符合预期:', data);
+    return failure('INVALID_RESPONSE', status);
+  }
+  return { success: true, data: result };
+}
+
+/**
+ * 发送 JSON 请求，超时后中止
+ */
+export async function apiRequest<T>(path: string, options: ApiRequestOptions<T>): Promise<ApiResult<T>> {
+  const { method = 'GET', body, timeout = DEFAULT_TIMEOUT, validate, statusMessages } = options;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = await fetch(apiUrl(path), {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: controller.signal,
+    });
+    const result = parseApiResponse(response.status, await response.text(), validate, statusMessages);
+    if (!result.success) {
+      console.error(`接口请求失败 ${method} ${path}:`, result.code, result.error);
+    }
+    return result;
+  } catch (error) {
+    console.error(`接口请求失败 ${method} ${path}:`, error);
+    // 中止说明超时；fetch 本身失败（离线、跨域）时抛出的是 TypeError
+    return failure(controller.signal.aborted ? 'TIMEOUT' : 'NETWORK_ERROR');
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export interface VerifyResponse {
+  taskId: string;
+  buyerName?: string;
+  template: CapsuleTemplate; // 缺失或无效时为默认模板
+}
+
+export interface UploadedFile {
+  url: string;
+  key?: string;
+}
+
+export interface TaskSegmentResponse {
+  id: number;
+  uploadUrl: string | null;
+  loudnessLufs: number | null;
+}
+
+export interface TaskResponse {
+  segments: TaskSegmentResponse[];
+  template: CapsuleTemplate; // 缺失或无效时为默认模板
+  music: MusicSettings | null; // 未设置或无效时为 null
+}
+
+type EmptyResponse = Record<string, never>;
+
+const validateEmpty: Validator<EmptyResponse> = () => ({});
+
+const validateVerify: Validator<VerifyResponse> = (data) => {
+  const { taskId } = data;
+  if (typeof taskId !== 'string' && typeof taskId !== 'number') return null;
+  return {
+    taskId: String(taskId),
+    buyerName: typeof data.buyerName === 'string' ? data.buyerName : undefined,
+    template: parseTemplate(data.template),
+  };
+};
+
+// 临时密钥字段沿用 STS 的 PascalCase，也兼容 snake_case 转换后的写法
+const validateCredentials: Validator<COSCredentials> = (data) => {
+  const credentials = data.credentials;
+  if (!isObject(credentials)) return null;
+  const TmpSecretId = credentials.TmpSecretId ?? credentials.tmpSecretId;
+  const TmpSecretKey = credentials.TmpSecretKey ?? credentials.tmpSecretKey;
+  const Token = credentials.Token ?? credentials.token ?? credentials.sessionToken;
+  const ExpiredTime = Number(credentials.ExpiredTime ?? credentials.expiredTime ?? data.expiredTime);
+  if (typeof TmpSecretId !== 'string' || typeof TmpSecretKey !== 'string' || typeof Token !== 'string' || !Number.isFinite(ExpiredTime)) {
+    return null;
+  }
+  return { TmpSecretId, TmpSecretKey, Token, ExpiredTime };
+};
+
+export const validateUploadedFile: Validator<UploadedFile> = (data) => {
+  if (typeof data.url !== 'string') return null;
+  return { url: data.url, key: typeof data.key === 'string' ? data.key : undefined };
+};
+
+const optionalString = (value: unknown): string | null => (typeof value === 'string' && value ? value : null);
+
+const validateTask: Validator<TaskResponse> = (data) => {
+  if (!Array.isArray(data.segments)) return null;
+  const segments = data.segments.filter(isObject).map((item, idx) => {
+    // 表单字段上传，后端可能把响度原样返回为字符串
+    const loudness = Number(item.loudnessLufs ?? NaN);
+    return {
+      id: Number(item.id ?? item.segmentIndex ?? idx),
+      uploadUrl: optionalString(item.uploadUrl) ?? optionalString(item.url),
+      loudnessLufs: Number.isFinite(loudness) ? loudness : null,
+    };
+  });
+  return { segments, template: parseTemplate(data.template), music: parseMusicSettings(data.music) };
+};
+
+/**
+ * 验证订单，返回制作任务
+ */
+export function verifyOrder(orderSn: string, mobileTail: string): Promise<ApiResult<VerifyResponse>> {
+  return apiRequest('/api/verify', {
+    method: 'POST',
+    body: { order_sn: orderSn, mobile_tail: mobileTail },
+    validate: validateVerify,
+    statusMessages: { 404: ERROR_MESSAGES.ORDER_NOT_FOUND },
+  });
+}
+
+/**
+ * 获取 COS 直传用的临时密钥
+ */
+export function fetchUploadCredentials(): Promise<ApiResult<COSCredentials>> {
+  return apiRequest('/api/upload/credentials', { validate: validateCredentials });
+}
+
+/**
+ * 加载声音胶囊的各段音频、模板和背景音乐
+ */
+export function fetchTask(taskId: string): Promise<ApiResult<TaskResponse>> {
+  return apiRequest(`/api/task/${encodeURIComponent(taskId)}`, {
+    validate: validateTask,
+    statusMessages: { 404: ERROR_MESSAGES.TASK_NOT_FOUND },
+  });
+}
+
+/**
+ * COS 直传完成后登记到任务：后端据此记录音频地址、文字稿和质量指标，
+ * 与后端代理上传（/api/upload/audio）提交的字段相同
+ */
+export function registerUploadedAudio(
+  taskId: string,
+  segmentIndex: number,
+  file: UploadedFile,
+  fields: Record<string, string> = {}
+): Promise<ApiResult<EmptyResponse>> {
+  return apiRequest('/api/upload/audio/complete', {
+    method: 'POST',
+    body: { ...fields, task_id: taskId, segment_index: segmentIndex, key: file.key, url: file.url },
+    validate: validateEmpty,
+  });
+}
+
+export function saveTaskMusic(taskId: string, music: MusicSettings | null): Promise<ApiResult<EmptyResponse>> {
+  return apiRequest(`/api/task/${encodeURIComponent(taskId)}/music`, {
+    method: 'POST',
+    body: { music },
+    validate: validateEmpty,
+  });
+}
+
+export default {
+  apiUrl,
+  toCamelCase,
+  getErrorMessage,
+  parseApiResponse,
+  apiRequest,
+  verifyOrder,
+  fetchUploadCredentials,
+  fetchTask,
+  registerUploadedAudio,
+  saveTaskMusic,
+};
@@ -0,0 +1,76 @@
+/**
+ * PCM 音频处理基础工具
+ * 解码为单声道 Float32 采样、写出 16 位 WAV，供剪辑、合并导出等功能共用
+ */
+
+export const PROCESS_SAMPLE_RATE = 44100;
+
+export interface MonoAudio {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+/**
+ * 解码音频数据为单声道 PCM
+ * 使用 OfflineAudioContext 解码不受自动播放限制，并统一重采样到 PROCESS_SAMPLE_RATE
+ */
+export async function decodeToMono(data: ArrayBuffer | Blob): Promise<MonoAudio> {
+  const buffer = data instanceof Blob ? await data.arrayBuffer() : data;
+  const context = new OfflineAudioContext(1, 1, PROCESS_SAMPLE_RATE);
+  const audioBuffer = await new Promise<AudioBuffer>((resolve, reject) => {
+    context.decodeAudioData(buffer, resolve, reject);
+  });
+
+  return audioBufferToMono(audioBuffer);
+}
+
+/**
+ * 多声道 AudioBuffer 混为单声道
+ */
+export function audioBufferToMono(audioBuffer: AudioBuffer): MonoAudio {
+  const samples = new Float32Array(audioBuffer.length);
+  for (let ch = 0; ch < audioBuffer.numberOfChannels; ch++) {
+    const channel = audioBuffer.getChannelData(ch);
+    for (let i = 0; i < audioBuffer.length; i++) {
+      samples[i] += channel[i] / audioBuffer.numberOfChannels;
+    }
+  }
+  return { samples, sampleRate: audioBuffer.sampleRate };
+}
+
+/**
+ * 写出 16 位 PCM 单声道 WAV，作为 MP3 编码的输入
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < tag.length; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // 单声道
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeTag(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return new Blob([buffer], { type: 'audio/wav' });
+}
+
+export default {
+  decodeToMono,
+  audioBufferToMono,
+  encodeWav,
+};
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { applyEffects, NO_EFFECTS, VoiceEffects, VoicePreset } from './audio-effects';
+import { RenderingOfflineAudioContext } from '../test/offline-audio';
+import { amplitudeAt, SAMPLE_RATE, toDb, tone } from '../test/signal';
+
+// 避开滤波器起始的过渡
+const RANGE = [Math.round(0.2 * SAMPLE_RATE), SAMPLE_RATE] as const;
+
+async function render(input: Float32Array, effects: Partial<VoiceEffects>): Promise<Float32Array> {
+  const { samples, sampleRate } = await applyEffects({ samples: input, sampleRate: SAMPLE_RATE }, { ...NO_EFFECTS, ...effects });
+  expect(sampleRate).toBe(SAMPLE_RATE);
+  expect(samples.length).toBe(input.length);
+  return samples;
+}
+
+// 单个纯音经过处理后在该频率上的增益（dB）
+async function gainAt(frequency: number, effects: Partial<VoiceEffects>, amplitude = 0.1): Promise<number> {
+  const input = tone(frequency, amplitude, 1);
+  const output = await render(input, effects);
+  return toDb(amplitudeAt(output, frequency, ...RANGE) / amplitudeAt(input, frequency, ...RANGE));
+}
+
+const preset = (id: VoicePreset): Partial<VoiceEffects> => ({ preset: id });
+
+describe('applyEffects 滤波与音色预设', () => {
+  beforeEach(() => {
+    vi.stubGlobal('OfflineAudioContext', RenderingOfflineAudioContext);
+  });
+
+  it('不加效果时原样返回', async () => {
+    const input = tone(440, 0.5, 1);
+    expect(await render(input, {})).toBe(input);
+  });
+
+  it('高通滤掉 30Hz 的隆隆声，1kHz 人声基本不变', async () => {
+    expect(await gainAt(30, { highPass: true })).toBeLessThan(-12);
+    expect(Math.abs(await gainAt(1000, { highPass: true }))).toBeLessThan(0.5);
+  });
+
+  it('温暖：提升低频、压低高频', async () => {
+    expect(await gainAt(100, preset('warm'))).toBeGreaterThan(2.5);
+    expect(await gainAt(10000, preset('warm'))).toBeLessThan(-2);
+    expect(Math.abs(await gainAt(1000, preset('warm')))).toBeLessThan(1);
+  });
+
+  it('电台：只保留 400Hz-3.2kHz 的频段', async () => {
+    const mid = await gainAt(1500, preset('radio'));
+    expect(await gainAt(100, preset('radio'))).toBeLessThan(mid - 20);
+    expect(await gainAt(8000, preset('radio'))).toBeLessThan(mid - 15);
+  });
+
+  it('电台：响亮的声音被软削波，产生谐波', async () => {
+    const input = tone(1000, 0.9, 1);
+    const output = await render(input, preset('radio'));
+
+    const fundamental = amplitudeAt(output, 1000, ...RANGE);
+    expect(toDb(amplitudeAt(output, 3000, ...RANGE) / fundamental)).toBeGreaterThan(-40);
+    expect(toDb(amplitudeAt(input, 3000, ...RANGE) / amplitudeAt(input, 1000, ...RANGE))).toBeLessThan(-80);
+  });
+
+  it('童声：升调后主频移到约 1.3 倍，并滤掉低频', async () => {
+    const input = tone(300, 0.3, 1);
+    const output = await render(input, preset('child'));
+
+    expect(amplitudeAt(output, 390, ...RANGE)).toBeGreaterThan(amplitudeAt(output, 300, ...RANGE) * 4);
+    expect(await gainAt(60, preset('child'))).toBeLessThan(-12);
+  });
+
+  it('提升后超过满幅时整体压回 0.98 以内', async () => {
+    const output = await render(tone(100, 0.97, 1), preset('warm'));
+
+    expect(Math.max(...output.map(Math.abs))).toBeLessThanOrEqual(0.98 + 1e-6);
+  });
+});
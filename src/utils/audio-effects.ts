@@ -0,0 +1,230 @@
+/**
+ * 人声效果处理链
+ * 浏览器自带的降噪在 iOS、安卓、微信 X5 上效果差别很大，上传前在设备上统一处理：
+ * 频谱降噪 → 齿音消除 → 变调（在 Worker 中计算）→ 滤波/音色预设（OfflineAudioContext 渲染）
+ * 全部离线计算，同样的输入和设置总是得到同样的输出
+ */
+
+import { decodeToMono, encodeWav, MonoAudio } from './audio-buffer';
+import { encodeAudio } from './audio-encoder';
+import { applySampleEffects, SampleEffects } from './voice-dsp';
+import type { EffectsRequest, EffectsResponse } from '../workers/voice-effects.worker';
+
+export type VoicePreset = 'none' | 'warm' | 'radio' | 'child';
+
+export interface VoiceEffects {
+  denoise: boolean; // 频谱降噪
+  highPass: boolean; // 滤掉低频隆隆声
+  deEss: boolean; // 压低齿音
+  preset: VoicePreset;
+}
+
+export const NO_EFFECTS: VoiceEffects = {
+  denoise: false,
+  highPass: false,
+  deEss: false,
+  preset: 'none',
+};
+
+export const VOICE_PRESETS: { id: VoicePreset; name: string }[] = [
+  { id: 'none', name: '原声' },
+  { id: 'warm', name: '温暖' },
+  { id: 'radio', name: '电台' },
+  { id: 'child', name: '童声' },
+];
+
+const SETTING_KEY = 'voice-capsule:voice-effects';
+
+const CHILD_PITCH_RATIO = 1.3; // 升高约4.5个半音
+const MAX_PEAK = 0.98;
+
+/**
+ * 读取上次使用的效果设置
+ */
+export function loadVoiceEffects(): VoiceEffects {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTING_KEY) || 'null');
+    if (!saved) return NO_EFFECTS;
+    return {
+      denoise: !!saved.denoise,
+      highPass: !!saved.highPass,
+      deEss: !!saved.deEss,
+      preset: VOICE_PRESETS.some(preset => preset.id === saved.preset) ? saved.preset : 'none',
+    };
+  } catch {
+    return NO_EFFECTS;
+  }
+}
+
+export function saveVoiceEffects(effects: VoiceEffects) {
+  localStorage.setItem(SETTING_KEY, JSON.stringify(effects));
+}
+
+export const hasEffects = (effects: VoiceEffects) =>
+  effects.denoise || effects.highPass || effects.deEss || effects.preset !== 'none';
+
+function createSoftClipCurve(drive: number): Float32Array<ArrayBuffer> {
+  const curve = new Float32Array(1024);
+  for (let i = 0; i < curve.length; i++) {
+    const x = (i / (curve.length - 1)) * 2 - 1;
+    curve[i] = Math.tanh(drive * x) / Math.tanh(drive);
+  }
+  return curve;
+}
+
+/**
+ * 用 OfflineAudioContext 渲染滤波与音色预设
+ */
+async function renderFilters(samples: Float32Array, sampleRate: number, effects: VoiceEffects): Promise<Float32Array> {
+  const context = new OfflineAudioContext(1, samples.length, sampleRate);
+  const buffer = context.createBuffer(1, samples.length, sampleRate);
+  buffer.getChannelData(0).set(samples);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+
+  const chain: AudioNode[] = [];
+  const addFilter = (type: BiquadFilterType, frequency: number, gain = 0, Q = Math.SQRT1_2) => {
+    const filter = context.createBiquadFilter();
+    filter.type = type;
+    filter.frequency.value = frequency;
+    filter.gain.value = gain;
+    filter.Q.value = Q;
+    chain.push(filter);
+  };
+
+  if (effects.highPass) {
+    addFilter('highpass', 80);
+  }
+
+  switch (effects.preset) {
+    case 'warm':
+      addFilter('lowshelf', 250, 4);
+      addFilter('highshelf', 5000, -3);
+      break;
+    case 'radio': {
+      // 电话/收音机频段，加一点过载
+      addFilter('highpass', 400);
+      addFilter('lowpass', 3200);
+      addFilter('peaking', 1500, 4, 1);
+      const shaper = context.createWaveShaper();
+      shaper.curve = createSoftClipCurve(2);
+      chain.push(shaper);
+      const level = context.createGain();
+      level.gain.value = 0.7;
+      chain.push(level);
+      break;
+    }
+    case 'child':
+      addFilter('highpass', 150);
+      addFilter('highshelf', 4000, 2);
+      break;
+  }
+
+  chain.reduce<AudioNode>((prev, node) => {
+    prev.connect(node);
+    return node;
+  }, source).connect(context.destination);
+  source.start(0);
+
+  const rendered = await context.startRendering();
+  return rendered.getChannelData(0);
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (samples: Float32Array) => void; reject: (error: Error) => void }>();
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/voice-effects.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<EffectsResponse>) => {
+      const { id, samples, error } = event.data;
+      const request = pending.get(id);
+      if (!request) return;
+      pending.delete(id);
+      if (samples) {
+        request.resolve(samples);
+      } else {
+        request.reject(new Error(error || '声音效果处理失败'));
+      }
+    };
+    worker.onerror = (event) => {
+      // Worker 崩溃时让所有等待中的处理失败，下次重新创建
+      pending.forEach(({ reject }) => reject(new Error(event.message || '声音效果 Worker 出错')));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+}
+
+/**
+ * 降噪等逐采样计算放到 Worker 中，几十秒的录音也不会卡住页面；
+ * 不支持 Worker 或 Worker 出错时在主线程计算，结果相同
+ */
+async function runSampleEffects(samples: Float32Array, sampleRate: number, effects: SampleEffects): Promise<Float32Array> {
+  if (typeof Worker === 'undefined') {
+    return applySampleEffects(samples, sampleRate, effects);
+  }
+
+  try {
+    // 复制一份再转移，调用方（如 A/B 试听）还要继续使用原始采样
+    const copy = samples.slice();
+    const id = nextRequestId++;
+    return await new Promise<Float32Array>((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      const request: EffectsRequest = { id, samples: copy, sampleRate, effects };
+      getWorker().postMessage(request, [copy.buffer]);
+    });
+  } catch (error) {
+    console.error('声音效果 Worker 处理失败，改在主线程处理:', error);
+    return applySampleEffects(samples, sampleRate, effects);
+  }
+}
+
+/**
+ * 按设置处理人声，输出长度与采样率不变
+ */
+export async function applyEffects({ samples, sampleRate }: MonoAudio, effects: VoiceEffects): Promise<MonoAudio> {
+  const sampleEffects: SampleEffects = {
+    denoise: effects.denoise,
+    deEss: effects.deEss,
+    pitchRatio: effects.preset === 'child' ? CHILD_PITCH_RATIO : null,
+  };
+  let processed = samples;
+  if (sampleEffects.denoise || sampleEffects.deEss || sampleEffects.pitchRatio !== null) {
+    processed = await runSampleEffects(processed, sampleRate, sampleEffects);
+  }
+  if (effects.highPass || effects.preset !== 'none') {
+    processed = await renderFilters(processed, sampleRate, effects);
+  }
+
+  // 均衡提升后可能超过满幅，整体压回
+  let peak = 0;
+  for (let i = 0; i < processed.length; i++) {
+    peak = Math.max(peak, Math.abs(processed[i]));
+  }
+  if (peak > MAX_PEAK) {
+    const scale = MAX_PEAK / peak;
+    processed = processed.map(sample => sample * scale);
+  }
+
+  return { samples: processed, sampleRate };
+}
+
+/**
+ * 处理录音文件并重新编码，供上传使用
+ */
+export async function processBlob(blob: Blob, effects: VoiceEffects): Promise<Blob> {
+  const audio = await applyEffects(await decodeToMono(blob), effects);
+  return encodeAudio(encodeWav(audio.samples, audio.sampleRate));
+}
+
+export default {
+  loadVoiceEffects,
+  saveVoiceEffects,
+  hasEffects,
+  applyEffects,
+  processBlob,
+};
@@ -0,0 +1,105 @@
+/**
+ * 录音压缩编码
+ * RecordRTC 产出的是 44.1kHz PCM WAV，上传前在 Worker 中编码为 MP3，体积约为原来的十分之一
+ */
+
+import type { EncodeRequest, EncodeResponse } from '../workers/mp3-encoder.worker';
+
+// 比特率（kbps），人声 64kbps 单声道已足够清晰
+export const AUDIO_BITRATE = Number(import.meta.env.VITE_AUDIO_BITRATE) || 64;
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/aac': 'aac',
+};
+
+/**
+ * 根据 MIME 类型获取文件扩展名（忽略 ;codecs=opus 等参数）
+ */
+export function getAudioExtension(mimeType: string): string {
+  return MIME_EXTENSIONS[mimeType.split(';')[0].trim().toLowerCase()] || 'mp3';
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (mp3: ArrayBuffer) => void; reject: (error: Error) => void }>();
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/mp3-encoder.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<EncodeResponse>) => {
+      const { id, mp3, error } = event.data;
+      const request = pending.get(id);
+      if (!request) return;
+      pending.delete(id);
+      if (mp3) {
+        request.resolve(mp3);
+      } else {
+        request.reject(new Error(error || '编码失败'));
+      }
+    };
+    worker.onerror = (event) => {
+      // Worker 崩溃时让所有等待中的编码失败，下次重新创建
+      pending.forEach(({ reject }) => reject(new Error(event.message || '编码 Worker 出错')));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+}
+
+async function isWav(blob: Blob): Promise<boolean> {
+  if (blob.type === 'audio/wav' || blob.type === 'audio/x-wav') return true;
+  const header = new Uint8Array(await blob.slice(0, 12).arrayBuffer());
+  return String.fromCharCode(...header.subarray(0, 4)) === 'RIFF'
+    && String.fromCharCode(...header.subarray(8, 12)) === 'WAVE';
+}
+
+/**
+ * 把 WAV 录音编码为 MP3；其他格式（如 MediaRecorder 产出的 Opus）原样返回
+ * 编码失败时退回原始 WAV，并保证 MIME 类型正确
+ */
+export async function encodeAudio(blob: Blob, bitrate: number = AUDIO_BITRATE): Promise<Blob> {
+  if (!(await isWav(blob))) {
+    return blob;
+  }
+
+  const wavBlob = blob.type === 'audio/wav' ? blob : new Blob([blob], { type: 'audio/wav' });
+  if (typeof Worker === 'undefined') {
+    return wavBlob;
+  }
+
+  try {
+    const wav = await blob.arrayBuffer();
+    const id = nextRequestId++;
+    const mp3 = await new Promise<ArrayBuffer>((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      const request: EncodeRequest = { id, wav, bitrate };
+      getWorker().postMessage(request, [wav]);
+    });
+
+    const mp3Blob = new Blob([mp3], { type: 'audio/mpeg' });
+    console.log('🎵 MP3 编码完成:', {
+      before: (blob.size / 1024).toFixed(0) + ' KB',
+      after: (mp3Blob.size / 1024).toFixed(0) + ' KB',
+      bitrate: bitrate + 'kbps',
+    });
+    return mp3Blob;
+  } catch (error) {
+    console.error('MP3 编码失败，使用原始 WAV 上传:', error);
+    return wavBlob;
+  }
+}
+
+export default {
+  AUDIO_BITRATE,
+  getAudioExtension,
+  encodeAudio,
+};
@@ -0,0 +1,133 @@
+/**
+ * 录音质量分析
+ * 计算峰值、响度、削波比例和静音占比，上传前提示用户，并随上传提交给后端
+ */
+
+import { decodeToMono, MonoAudio } from './audio-buffer';
+import { SILENCE_THRESHOLD_DB, ANALYSIS_WINDOW } from './audio-trim';
+import { measureLoudness } from './loudness';
+
+export interface AudioQuality {
+  duration: number; // 秒
+  peakDb: number; // 峰值电平（dBFS）
+  rmsDb: number; // 整段平均电平（dBFS）
+  loudnessDb: number; // 有声部分的平均电平（dBFS），代表说话音量
+  lufs: number | null; // 积分响度（LUFS），播放时用于各段音量均衡
+  clippingPercent: number; // 削波采样占比（%）
+  silenceRatio: number; // 静音窗口占比（0-1）
+}
+
+const CLIP_LEVEL = 0.99; // 绝对值达到此值视为削波
+const MIN_DB = -100;
+
+const CLIPPING_WARN_PERCENT = 0.1;
+const SILENT_RATIO = 0.95;
+const QUIET_LOUDNESS_DB = -35;
+const PAUSE_RATIO = 0.6;
+
+const toDb = (value: number) => (value > 0 ? Math.max(MIN_DB, 20 * Math.log10(value)) : MIN_DB);
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+/**
+ * 按20ms窗口统计电平
+ */
+export function analyzeAudio(audio: MonoAudio): AudioQuality {
+  const { samples, sampleRate } = audio;
+  const windowSize = Math.max(1, Math.round(ANALYSIS_WINDOW * sampleRate));
+  const silenceThreshold = Math.pow(10, SILENCE_THRESHOLD_DB / 20);
+
+  let peak = 0;
+  let clipped = 0;
+  let totalSquares = 0;
+  let voicedSquares = 0;
+  let voicedSamples = 0;
+  let windowCount = 0;
+  let silentWindows = 0;
+
+  for (let start = 0; start < samples.length; start += windowSize) {
+    const end = Math.min(start + windowSize, samples.length);
+    let squares = 0;
+    for (let i = start; i < end; i++) {
+      const value = Math.abs(samples[i]);
+      if (value > peak) peak = value;
+      if (value >= CLIP_LEVEL) clipped++;
+      squares += samples[i] * samples[i];
+    }
+
+    totalSquares += squares;
+    windowCount++;
+    if (Math.sqrt(squares / (end - start)) < silenceThreshold) {
+      silentWindows++;
+    } else {
+      voicedSquares += squares;
+      voicedSamples += end - start;
+    }
+  }
+
+  const length = Math.max(1, samples.length);
+  const lufs = measureLoudness(audio);
+  return {
+    duration: round(samples.length / sampleRate, 2),
+    peakDb: round(toDb(peak), 1),
+    rmsDb: round(toDb(Math.sqrt(totalSquares / length)), 1),
+    loudnessDb: round(voicedSamples > 0 ? toDb(Math.sqrt(voicedSquares / voicedSamples)) : MIN_DB, 1),
+    lufs: lufs === null ? null : round(lufs, 1),
+    clippingPercent: round((clipped / length) * 100, 3),
+    silenceRatio: round(windowCount > 0 ? silentWindows / windowCount : 1, 3),
+  };
+}
+
+/**
+ * 解码录音后分析，解码失败时返回 null（不影响上传）
+ */
+export async function analyzeBlob(blob: Blob): Promise<AudioQuality | null> {
+  try {
+    return analyzeAudio(await decodeToMono(blob));
+  } catch (error) {
+    console.error('录音质量分析失败:', error);
+    return null;
+  }
+}
+
+/**
+ * 生成可操作的提示，没有问题时返回空数组
+ */
+export function getQualityWarnings(quality: AudioQuality): string[] {
+  if (quality.silenceRatio >= SILENT_RATIO) {
+    return ['几乎没有录到声音，请检查麦克风是否被静音或遮挡后重录'];
+  }
+
+  const warnings: string[] = [];
+  if (quality.clippingPercent > CLIPPING_WARN_PERCENT) {
+    warnings.push('声音过大出现爆音，建议离麦克风远一点重录');
+  }
+  if (quality.loudnessDb < QUIET_LOUDNESS_DB) {
+    warnings.push('声音偏小，建议靠近麦克风或大声一些重录');
+  }
+  if (quality.silenceRatio > PAUSE_RATIO) {
+    warnings.push('录音中空白较多，可以剪掉开头和结尾的停顿');
+  }
+  return warnings;
+}
+
+/**
+ * 转换为上传表单字段（后端字段使用下划线命名）
+ */
+export function qualityToFields(quality: AudioQuality): Record<string, string> {
+  return {
+    duration: String(quality.duration),
+    peak_db: String(quality.peakDb),
+    rms_db: String(quality.rmsDb),
+    loudness_db: String(quality.loudnessDb),
+    clipping_percent: String(quality.clippingPercent),
+    silence_ratio: String(quality.silenceRatio),
+    ...(quality.lufs !== null ? { loudness_lufs: String(quality.lufs) } : {}),
+  };
+}
+
+export default {
+  analyzeAudio,
+  analyzeBlob,
+  getQualityWarnings,
+  qualityToFields,
+};
@@ -0,0 +1,85 @@
+/**
+ * 录音剪辑工具
+ * 自动识别首尾静音，裁剪后重新编码
+ */
+
+import { encodeWav, MonoAudio } from './audio-buffer';
+import { encodeAudio } from './audio-encoder';
+
+export interface TrimRange {
+  start: number; // 秒
+  end: number;
+}
+
+export const SILENCE_THRESHOLD_DB = -45; // 低于此电平视为静音
+export const ANALYSIS_WINDOW = 0.02; // 按20ms窗口计算电平
+const SILENCE_PADDING = 0.15; // 裁剪时保留的首尾余量，避免切掉字头字尾
+
+/**
+ * 把音频压缩为固定数量的峰值，用于绘制波形
+ */
+export function computePeaks(samples: Float32Array, count: number): Float32Array {
+  const peaks = new Float32Array(count);
+  const bucketSize = Math.max(1, Math.floor(samples.length / count));
+
+  for (let i = 0; i < count; i++) {
+    let peak = 0;
+    const start = i * bucketSize;
+    const end = Math.min(start + bucketSize, samples.length);
+    for (let j = start; j < end; j++) {
+      const value = Math.abs(samples[j]);
+      if (value > peak) peak = value;
+    }
+    peaks[i] = peak;
+  }
+  return peaks;
+}
+
+/**
+ * 检测首尾静音，返回有声部分的范围（含少量余量）
+ * 整段都是静音时返回完整范围，由用户自行判断
+ */
+export function detectSilence({ samples, sampleRate }: MonoAudio): TrimRange {
+  const duration = samples.length / sampleRate;
+  const windowSize = Math.max(1, Math.round(ANALYSIS_WINDOW * sampleRate));
+  const threshold = Math.pow(10, SILENCE_THRESHOLD_DB / 20);
+
+  const isLoud = (windowIndex: number) => {
+    const start = windowIndex * windowSize;
+    const end = Math.min(start + windowSize, samples.length);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+    return Math.sqrt(sum / (end - start)) > threshold;
+  };
+
+  const windowCount = Math.ceil(samples.length / windowSize);
+  let first = 0;
+  while (first < windowCount && !isLoud(first)) first++;
+  if (first === windowCount) {
+    return { start: 0, end: duration };
+  }
+
+  let last = windowCount - 1;
+  while (last > first && !isLoud(last)) last--;
+
+  return {
+    start: Math.max(0, (first * windowSize) / sampleRate - SILENCE_PADDING),
+    end: Math.min(duration, ((last + 1) * windowSize) / sampleRate + SILENCE_PADDING),
+  };
+}
+
+/**
+ * 在设备上裁剪音频并重新编码
+ */
+export async function trimAudio(audio: MonoAudio, range: TrimRange): Promise<Blob> {
+  const start = Math.max(0, Math.floor(range.start * audio.sampleRate));
+  const end = Math.min(audio.samples.length, Math.ceil(range.end * audio.sampleRate));
+  const trimmed = audio.samples.subarray(start, end);
+  return encodeAudio(encodeWav(trimmed, audio.sampleRate));
+}
+
+export default {
+  computePeaks,
+  detectSilence,
+  trimAudio,
+};
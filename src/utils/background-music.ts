@@ -0,0 +1,208 @@
+/**
+ * 背景音乐
+ * 在人声下方循环铺一层音乐，说话时自动压低（闪避），可离线渲染成单个文件
+ * 选择结果随任务保存到后端，收礼人听到的是同样的混音
+ */
+
+import { BUNDLED_TRACKS, renderBundledTrack } from './music-tracks';
+import { saveTaskMusic } from './api-client';
+
+export type MusicSource =
+  | { type: 'bundled'; trackId: string }
+  | { type: 'file'; url: string; name: string };
+
+export interface MusicSettings {
+  source: MusicSource;
+  level: number; // 音乐音量 0-1，相对人声
+}
+
+export interface DuckPoint {
+  time: number; // 秒
+  ducked: boolean; // 从此刻开始是否在说话
+}
+
+const LOCAL_KEY_PREFIX = 'voice-capsule:music:';
+
+export const DEFAULT_MUSIC_LEVEL = 0.5;
+const MAX_MUSIC_GAIN = 0.5; // level 为 1 时音乐的增益
+const DUCK_RATIO = 0.3; // 说话时音乐降到 30%
+const DUCK_ATTACK = 0.1; // 压低的时间常数（秒）
+const DUCK_RELEASE = 0.5; // 恢复的时间常数（秒）
+const VOICE_THRESHOLD_DB = -40; // 高于此电平视为在说话
+const VOICE_WINDOW = 0.05;
+const VOICE_HOLD = 0.4; // 短暂停顿不恢复音乐，避免忽大忽小
+const TAIL_SECONDS = 2; // 导出时人声结束后音乐淡出的时长
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function parseMusicSource(raw: unknown): MusicSource | null {
+  if (!isObject(raw)) return null;
+  const { type, trackId, url, name } = raw;
+  if (type === 'bundled' && typeof trackId === 'string' && BUNDLED_TRACKS.some(track => track.id === trackId)) {
+    return { type: 'bundled', trackId };
+  }
+  if (type === 'file' && typeof url === 'string' && url) {
+    return { type: 'file', url, name: typeof name === 'string' && name ? name : '本地音乐' };
+  }
+  return null;
+}
+
+/**
+ * 解析后端返回（或本地保存）的背景音乐设置，无效时返回 null
+ */
+export function parseMusicSettings(raw: unknown): MusicSettings | null {
+  if (!isObject(raw)) return null;
+  const source = parseMusicSource(raw.source);
+  if (!source) return null;
+
+  const level = typeof raw.level === 'number' || typeof raw.level === 'string' ? Number(raw.level) : NaN;
+  return {
+    source,
+    level: Number.isFinite(level) ? Math.max(0, Math.min(1, level)) : DEFAULT_MUSIC_LEVEL,
+  };
+}
+
+export const getMusicGain = (level: number) => level * MAX_MUSIC_GAIN;
+
+/**
+ * 加载背景音乐：内置曲目现场合成，本地上传的文件下载后解码
+ */
+export async function loadMusicBuffer(source: MusicSource, context: BaseAudioContext): Promise<AudioBuffer> {
+  if (source.type === 'bundled') {
+    return renderBundledTrack(source.trackId, context.sampleRate);
+  }
+
+  const response = await fetch(source.url);
+  if (!response.ok) {
+    throw new Error(`下载背景音乐失败: ${response.status}`);
+  }
+  const data = await response.arrayBuffer();
+  return new Promise<AudioBuffer>((resolve, reject) => {
+    context.decodeAudioData(data, resolve, reject);
+  });
+}
+
+/**
+ * 按人声电平计算闪避时间点：开始说话时压低音乐，停顿超过 VOICE_HOLD 后恢复
+ */
+export function getDuckPoints(samples: Float32Array, sampleRate: number): DuckPoint[] {
+  const windowSize = Math.max(1, Math.round(VOICE_WINDOW * sampleRate));
+  const threshold = Math.pow(10, VOICE_THRESHOLD_DB / 20);
+  const points: DuckPoint[] = [];
+  let ducked = false;
+  let lastVoiceTime = -Infinity;
+
+  for (let start = 0; start < samples.length; start += windowSize) {
+    const end = Math.min(start + windowSize, samples.length);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+    const time = start / sampleRate;
+
+    if (Math.sqrt(sum / (end - start)) > threshold) {
+      lastVoiceTime = time;
+      if (!ducked) {
+        ducked = true;
+        points.push({ time, ducked });
+      }
+    } else if (ducked && time - lastVoiceTime > VOICE_HOLD) {
+      ducked = false;
+      points.push({ time, ducked });
+    }
+  }
+  return points;
+}
+
+/**
+ * 在音乐增益上安排闪避自动化
+ * @param from 时间轴上的起始位置，之前的时间点只用于确定初始状态
+ * @param when from 对应的 AudioContext 时间
+ */
+export function scheduleDucking(param: AudioParam, points: DuckPoint[], level: number, from: number, when: number) {
+  const gain = getMusicGain(level);
+  const duckedGain = gain * DUCK_RATIO;
+  const initial = [...points].reverse().find(point => point.time <= from);
+
+  param.cancelScheduledValues(when);
+  param.setValueAtTime(initial?.ducked ? duckedGain : gain, when);
+  points
+    .filter(point => point.time > from)
+    .forEach((point) => {
+      param.setTargetAtTime(
+        point.ducked ? duckedGain : gain,
+        when + point.time - from,
+        point.ducked ? DUCK_ATTACK : DUCK_RELEASE
+      );
+    });
+}
+
+/**
+ * 离线混音：人声下方循环铺音乐，人声结束后音乐淡出
+ */
+export async function mixMusicBed(samples: Float32Array, sampleRate: number, music: MusicSettings): Promise<Float32Array> {
+  const length = samples.length + Math.round(TAIL_SECONDS * sampleRate);
+  const context = new OfflineAudioContext(1, length, sampleRate);
+
+  const voiceBuffer = context.createBuffer(1, samples.length, sampleRate);
+  voiceBuffer.getChannelData(0).set(samples);
+  const voice = context.createBufferSource();
+  voice.buffer = voiceBuffer;
+  voice.connect(context.destination);
+  voice.start(0);
+
+  const musicSource = context.createBufferSource();
+  musicSource.buffer = await loadMusicBuffer(music.source, context);
+  musicSource.loop = true;
+  const musicGain = context.createGain();
+  scheduleDucking(musicGain.gain, getDuckPoints(samples, sampleRate), music.level, 0, 0);
+  const voiceEnd = samples.length / sampleRate;
+  musicGain.gain.setTargetAtTime(0, voiceEnd, TAIL_SECONDS / 4);
+  musicSource.connect(musicGain);
+  musicGain.connect(context.destination);
+  musicSource.start(0);
+
+  const rendered = await context.startRendering();
+  return rendered.getChannelData(0);
+}
+
+/**
+ * 保存到任务，收礼人打开时使用同样的背景音乐
+ */
+export async function saveMusicSettings(
+  taskId: string,
+  music: MusicSettings | null
+): Promise<{ success: boolean; error?: string }> {
+  saveLocalMusicSettings(taskId, music);
+  const result = await saveTaskMusic(taskId, music);
+  return result.success ? { success: true } : { success: false, error: result.error };
+}
+
+/**
+ * 制作人本地也保留一份，刷新页面后仍能看到自己的选择
+ */
+export function loadLocalMusicSettings(taskId: string): MusicSettings | null {
+  try {
+    return parseMusicSettings(JSON.parse(localStorage.getItem(`${LOCAL_KEY_PREFIX}${taskId}`) || 'null'));
+  } catch {
+    return null;
+  }
+}
+
+function saveLocalMusicSettings(taskId: string, music: MusicSettings | null) {
+  if (music) {
+    localStorage.setItem(`${LOCAL_KEY_PREFIX}${taskId}`, JSON.stringify(music));
+  } else {
+    localStorage.removeItem(`${LOCAL_KEY_PREFIX}${taskId}`);
+  }
+}
+
+export default {
+  parseMusicSettings,
+  getMusicGain,
+  loadMusicBuffer,
+  getDuckPoints,
+  scheduleDucking,
+  mixMusicBed,
+  saveMusicSettings,
+  loadLocalMusicSettings,
+};
@@ -0,0 +1,54 @@
+/**
+ * 声音胶囊查询工具
+ * 收礼人打开分享链接时，根据 taskId 从后端加载各段音频地址
+ */
+
+import type { CapsuleTemplate } from './capsule-template';
+import type { MusicSettings } from './background-music';
+import type { PlayableSegment } from './segment-state';
+import { fetchTask } from './api-client';
+
+// 上传时测得的响度随段一起返回
+export type CapsuleSegment = PlayableSegment;
+
+export interface CapsuleResult {
+  success: boolean;
+  segments?: CapsuleSegment[];
+  template?: CapsuleTemplate;
+  music?: MusicSettings | null;
+  error?: string;
+}
+
+/**
+ * 从当前地址解析分享链接中的 taskId（/play/:taskId）
+ */
+export function getPlayTaskId(pathname: string = window.location.pathname): string | null {
+  const match = pathname.match(/^\/play\/([^/]+)\/?$/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+/**
+ * 根据 taskId 加载声音胶囊的各段音频
+ */
+export async function fetchCapsule(taskId: string): Promise<CapsuleResult> {
+  const result = await fetchTask(taskId);
+  if (!result.success) {
+    return { success: false, error: result.error };
+  }
+
+  const segments: CapsuleSegment[] = result.data.segments
+    .map(item => ({ id: item.id, uploadUrl: item.uploadUrl, loudness: item.loudnessLufs }))
+    .sort((a, b) => a.id - b.id);
+
+  return {
+    success: true,
+    segments,
+    template: result.data.template,
+    music: result.data.music,
+  };
+}
+
+export default {
+  getPlayTaskId,
+  fetchCapsule,
+};
@@ -0,0 +1,196 @@
+/**
+ * 导出完整声音胶囊
+ * 解码各段音频，按间隔或交叉淡化拼接，编码为一个带章节标记的 MP3 文件
+ */
+
+import { encodeAudio, getAudioExtension } from './audio-encoder';
+import { decodeToMono, encodeWav, PROCESS_SAMPLE_RATE } from './audio-buffer';
+import { mixMusicBed, MusicSettings } from './background-music';
+
+// 参与导出的一段音频及其章节名
+export interface CapsuleTrack {
+  url: string;
+  title: string;
+}
+
+export interface CapsuleExportOptions {
+  title: string;
+  gapSeconds?: number; // 段间静音，crossfadeSeconds > 0 时忽略
+  crossfadeSeconds?: number; // 段间交叉淡化时长
+  bitrate?: number;
+  music?: MusicSettings | null; // 背景音乐，混在人声下方
+}
+
+export interface CapsuleExportResult {
+  blob: Blob;
+  fileName: string;
+}
+
+const EXPORT_SAMPLE_RATE = PROCESS_SAMPLE_RATE;
+const DEFAULT_GAP_SECONDS = 1;
+
+interface Chapter {
+  title: string;
+  startMs: number;
+  endMs: number;
+}
+
+/**
+ * 下载并解码一段音频为单声道 PCM
+ */
+async function decodeSegment(url: string): Promise<Float32Array> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`下载音频失败: ${response.status}`);
+  }
+  const { samples } = await decodeToMono(await response.arrayBuffer());
+  return samples;
+}
+
+/**
+ * 拼接各段：有交叉淡化时重叠并做等功率淡入淡出，否则插入静音间隔
+ */
+function joinSegments(
+  segments: Float32Array[],
+  gapSeconds: number,
+  crossfadeSeconds: number
+): { samples: Float32Array; offsets: number[] } {
+  const gap = crossfadeSeconds > 0 ? 0 : Math.round(gapSeconds * EXPORT_SAMPLE_RATE);
+  const offsets: number[] = [];
+  let length = 0;
+
+  segments.forEach((segment, idx) => {
+    if (idx > 0) {
+      const fade = Math.min(
+        Math.round(crossfadeSeconds * EXPORT_SAMPLE_RATE),
+        segments[idx - 1].length,
+        segment.length
+      );
+      length += gap - fade;
+    }
+    offsets.push(length);
+    length += segment.length;
+  });
+
+  const samples = new Float32Array(length);
+  segments.forEach((segment, idx) => {
+    const offset = offsets[idx];
+    const fadeIn = idx > 0 ? offsets[idx - 1] + segments[idx - 1].length - offset : 0;
+    const fadeOut = idx < segments.length - 1 ? offset + segment.length - offsets[idx + 1] : 0;
+
+    for (let i = 0; i < segment.length; i++) {
+      let gain = 1;
+      if (fadeIn > 0 && i < fadeIn) {
+        gain *= Math.sin((i / fadeIn) * Math.PI / 2);
+      }
+      const tail = segment.length - i;
+      if (fadeOut > 0 && tail <= fadeOut) {
+        gain *= Math.sin((tail / fadeOut) * Math.PI / 2);
+      }
+      samples[offset + i] += segment[i] * gain;
+    }
+  });
+
+  return { samples, offsets };
+}
+
+// ID3v2.3 标签（标题 + CHAP/CTOC 章节）
+
+function concatBytes(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    output.set(part, position);
+    position += part.length;
+  }
+  return output;
+}
+
+function uint32(value: number): Uint8Array {
+  return new Uint8Array([(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]);
+}
+
+function latin1(text: string): Uint8Array {
+  return new Uint8Array([...text].map(c => c.charCodeAt(0) & 0xff));
+}
+
+function id3Frame(id: string, body: Uint8Array): Uint8Array {
+  return concatBytes([latin1(id), uint32(body.length), new Uint8Array([0, 0]), body]);
+}
+
+function id3TextFrame(id: string, text: string): Uint8Array {
+  // 编码 0x01：带 BOM 的 UTF-16，中文标题需要
+  const utf16 = new Uint8Array(text.length * 2);
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    utf16[i * 2] = code & 0xff;
+    utf16[i * 2 + 1] = code >> 8;
+  }
+  return id3Frame(id, concatBytes([new Uint8Array([0x01, 0xff, 0xfe]), utf16, new Uint8Array([0, 0])]));
+}
+
+function buildId3Tag(title: string, chapters: Chapter[]): Uint8Array<ArrayBuffer> {
+  const chapterIds = chapters.map((_, idx) => `ch${idx + 1}`);
+  const frames = [
+    id3TextFrame('TIT2', title),
+    id3TextFrame('TPE1', '亲声胶囊'),
+    id3Frame('CTOC', concatBytes([
+      latin1('toc\0'),
+      new Uint8Array([0x03, chapters.length]), // 顶层、有序
+      ...chapterIds.map(id => latin1(`${id}\0`)),
+    ])),
+    ...chapters.map((chapter, idx) => id3Frame('CHAP', concatBytes([
+      latin1(`${chapterIds[idx]}\0`),
+      uint32(chapter.startMs),
+      uint32(chapter.endMs),
+      uint32(0xffffffff),
+      uint32(0xffffffff),
+      id3TextFrame('TIT2', chapter.title),
+    ]))),
+  ];
+
+  const body = concatBytes(frames);
+  const size = body.length;
+  // 标签长度使用 syncsafe 整数
+  const header = new Uint8Array([
+    0x49, 0x44, 0x33, 0x03, 0x00, 0x00,
+    (size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f,
+  ]);
+  return concatBytes([header, body]);
+}
+
+/**
+ * 导出完整声音胶囊为单个文件
+ */
+export async function exportCapsule(tracks: CapsuleTrack[], options: CapsuleExportOptions): Promise<CapsuleExportResult> {
+  const gapSeconds = options.gapSeconds ?? DEFAULT_GAP_SECONDS;
+  const crossfadeSeconds = options.crossfadeSeconds ?? 0;
+
+  const decoded = await Promise.all(tracks.map(track => decodeSegment(track.url)));
+  const joined = joinSegments(decoded, gapSeconds, crossfadeSeconds);
+  const { offsets } = joined;
+  const samples = options.music
+    ? await mixMusicBed(joined.samples, EXPORT_SAMPLE_RATE, options.music)
+    : joined.samples;
+
+  const chapters: Chapter[] = decoded.map((segment, idx) => ({
+    title: tracks[idx].title,
+    startMs: Math.round((offsets[idx] / EXPORT_SAMPLE_RATE) * 1000),
+    endMs: Math.round(((offsets[idx] + segment.length) / EXPORT_SAMPLE_RATE) * 1000),
+  }));
+
+  let blob = await encodeAudio(encodeWav(samples, EXPORT_SAMPLE_RATE), options.bitrate);
+  if (blob.type === 'audio/mpeg') {
+    const tag = buildId3Tag(options.title, chapters);
+    blob = new Blob([tag, blob], { type: 'audio/mpeg' });
+  }
+
+  return {
+    blob,
+    fileName: `${options.title}.${getAudioExtension(blob.type)}`,
+  };
+}
+
+export default {
+  exportCapsule,
+};
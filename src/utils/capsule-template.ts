@@ -0,0 +1,92 @@
+/**
+ * 声音胶囊模板
+ * 不同商品（生日、婚礼、春节、30秒迷你版）的段数、提示语、时长和主题由 /api/verify 返回
+ */
+
+export type CapsuleTheme = 'default' | 'birthday' | 'wedding' | 'spring-festival';
+
+export interface SegmentTemplate {
+  prompt: string; // 段落提示语，如"想对TA说的话"
+  maxDuration: number; // 秒，到时自动停止
+  minDuration: number; // 秒，短于此时长需要重录
+}
+
+export interface CapsuleTemplate {
+  id: string;
+  name: string;
+  theme: CapsuleTheme;
+  segments: SegmentTemplate[];
+}
+
+export interface ThemeStyle {
+  title: string;
+  subtitle: string;
+  gradient: string; // 图标背景渐变（Tailwind 类名）
+}
+
+export const DEFAULT_TEMPLATE: CapsuleTemplate = {
+  id: 'default',
+  name: '声音胶囊',
+  theme: 'default',
+  segments: [
+    { prompt: '想对TA说的话', maxDuration: 60, minDuration: 3 },
+    { prompt: '你们的故事', maxDuration: 60, minDuration: 3 },
+    { prompt: '祝福与期待', maxDuration: 60, minDuration: 3 },
+  ],
+};
+
+export const THEME_STYLES: Record<CapsuleTheme, ThemeStyle> = {
+  'default': { title: '声音胶囊', subtitle: '一份特别的声音礼物', gradient: 'from-pink-400 to-orange-500' },
+  'birthday': { title: '生日声音胶囊', subtitle: '把生日祝福说给TA听', gradient: 'from-pink-400 to-purple-500' },
+  'wedding': { title: '婚礼声音胶囊', subtitle: '珍藏这份爱的誓言', gradient: 'from-rose-400 to-red-500' },
+  'spring-festival': { title: '新春声音胶囊', subtitle: '新年的问候与祝福', gradient: 'from-red-500 to-yellow-500' },
+};
+
+const THEMES = Object.keys(THEME_STYLES) as CapsuleTheme[];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isTheme = (value: unknown): value is CapsuleTheme =>
+  typeof value === 'string' && (THEMES as string[]).includes(value);
+
+const nonEmptyString = (value: unknown): string | null => (typeof value === 'string' && value ? value : null);
+
+function parseSegment(item: Record<string, unknown>, idx: number): SegmentTemplate {
+  const fallback = DEFAULT_TEMPLATE.segments[idx] || DEFAULT_TEMPLATE.segments[0];
+  const maxDuration = Number(item.maxDuration ?? item.max_duration) || fallback.maxDuration;
+  const minDuration = Number(item.minDuration ?? item.min_duration) || 0;
+  return {
+    prompt: nonEmptyString(item.prompt) ?? `第${idx + 1}段`,
+    maxDuration,
+    minDuration: Math.min(minDuration, maxDuration),
+  };
+}
+
+/**
+ * 解析后端返回的模板（兼容 snake_case 字段），缺失或结构无效时使用默认模板
+ */
+export function parseTemplate(raw: unknown): CapsuleTemplate {
+  if (!isObject(raw) || !Array.isArray(raw.segments)) {
+    return DEFAULT_TEMPLATE;
+  }
+  // 段必须都是对象，否则段数和提示语都不可信
+  const items: unknown[] = raw.segments;
+  if (items.length === 0 || !items.every(isObject)) {
+    return DEFAULT_TEMPLATE;
+  }
+
+  const id = raw.id ?? raw.templateId ?? raw.template_id;
+  return {
+    id: typeof id === 'string' || typeof id === 'number' ? String(id) : DEFAULT_TEMPLATE.id,
+    name: nonEmptyString(raw.name) ?? DEFAULT_TEMPLATE.name,
+    theme: isTheme(raw.theme) ? raw.theme : 'default',
+    segments: items.map(parseSegment),
+  };
+}
+
+export default {
+  DEFAULT_TEMPLATE,
+  THEME_STYLES,
+  parseTemplate,
+};
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { buildSignature, cosEncode, getAuthorization, SignOptions } from './cos-sign';
+
+// 官方文档「请求签名」中的示例密钥与请求：https://cloud.tencent.com/document/product/436/7778
+const SECRET_ID = 'AKIDQjz3ltompVjBni5LitkWHFlFpwkn9U5q';
+const SECRET_KEY = 'BQYIM75p8x0iWVFSIgqEKwFprpRSVHlz';
+const HOST = 'examplebucket-1250000000.cos.ap-beijing.myqcloud.com';
+
+// 上传对象（PUT Object）：签名多个请求头
+const PUT_OBJECT: SignOptions = {
+  secretId: SECRET_ID,
+  secretKey: SECRET_KEY,
+  method: 'PUT',
+  pathname: '/exampleobject(腾讯云)',
+  headers: {
+    'x-cos-grant-read': 'uin="100000000011"',
+    Host: HOST,
+    'Content-Type': 'text/plain',
+    Date: 'Thu, 16 May 2019 06:45:51 GMT',
+    'x-cos-acl': 'private',
+    'Content-MD5': 'mQ/fVh815F3k6TAUm8m0eg==',
+    'Content-Length': '13',
+  },
+  startTime: 1557989151,
+  expiredTime: 1557996351,
+};
+
+// 下载对象（GET Object）：签名请求参数
+const GET_OBJECT: SignOptions = {
+  secretId: SECRET_ID,
+  secretKey: SECRET_KEY,
+  method: 'GET',
+  pathname: '/exampleobject(腾讯云)',
+  query: {
+    'response-content-type': 'application/octet-stream',
+    'response-cache-control': 'max-age=600',
+  },
+  headers: {
+    Host: HOST,
+    Date: 'Thu, 16 May 2019 06:55:53 GMT',
+  },
+  startTime: 1557989753,
+  expiredTime: 1557996953,
+};
+
+describe('cosEncode', () => {
+  it('在 encodeURIComponent 基础上额外编码 !\'()*', () => {
+    expect(cosEncode("a!b'c(d)e*f")).toBe('a%21b%27c%28d%29e%2Af');
+  });
+
+  it('保留 RFC 3986 非保留字符，其余按 UTF-8 编码', () => {
+    expect(cosEncode('AZaz09-_.~')).toBe('AZaz09-_.~');
+    expect(cosEncode('a b/c=d&e')).toBe('a%20b%2Fc%3Dd%26e');
+    expect(cosEncode('腾讯云')).toBe('%E8%85%BE%E8%AE%AF%E4%BA%91');
+  });
+});
+
+describe('buildSignature', () => {
+  it('与官方 PUT Object 示例的各步骤结果一致', async () => {
+    const result = await buildSignature(PUT_OBJECT);
+
+    expect(result.keyTime).toBe('1557989151;1557996351');
+    expect(result.signKey).toBe('eb2519b498b02ac213cb1f3d1a3d27a3b3c9bc5f');
+    expect(result.httpString).toBe(
+      'put\n/exampleobject(腾讯云)\n\n' +
+      'content-length=13&content-md5=mQ%2FfVh815F3k6TAUm8m0eg%3D%3D&content-type=text%2Fplain' +
+      '&date=Thu%2C%2016%20May%202019%2006%3A45%3A51%20GMT' +
+      `&host=${HOST}&x-cos-acl=private&x-cos-grant-read=uin%3D%22100000000011%22\n`
+    );
+    expect(result.stringToSign).toBe('sha1\n1557989151;1557996351\n8b2751e77f43a0995d6e9eb9477f4b685cca4172\n');
+    expect(result.signature).toBe('3b8851a11a569213c17ba8fa7dcf2abec6935172');
+  });
+
+  it('与官方 GET Object 示例的各步骤结果一致', async () => {
+    const result = await buildSignature(GET_OBJECT);
+
+    expect(result.signKey).toBe('937914bf490e9e8c189836aad2052e4feeb35eaf');
+    expect(result.httpString).toBe(
+      'get\n/exampleobject(腾讯云)\n' +
+      'response-cache-control=max-age%3D600&response-content-type=application%2Foctet-stream\n' +
+      `date=Thu%2C%2016%20May%202019%2006%3A55%3A53%20GMT&host=${HOST}\n`
+    );
+    expect(result.stringToSign).toBe('sha1\n1557989753;1557996953\n54ecfe22f59d3514fdc764b87a32d8133ea611e6\n');
+    expect(result.signature).toBe('01681b8c9d798a678e43b685a9f1bba0f6c0e012');
+  });
+
+  it('请求头和参数的顺序不影响签名', async () => {
+    const reversed: SignOptions = {
+      ...GET_OBJECT,
+      query: Object.fromEntries(Object.entries(GET_OBJECT.query!).reverse()),
+      headers: Object.fromEntries(Object.entries(GET_OBJECT.headers!).reverse()),
+    };
+
+    expect((await buildSignature(reversed)).signature).toBe((await buildSignature(GET_OBJECT)).signature);
+  });
+});
+
+describe('getAuthorization', () => {
+  it('生成官方 PUT Object 示例的 Authorization', async () => {
+    expect(await getAuthorization(PUT_OBJECT)).toBe(
+      `q-sign-algorithm=sha1&q-ak=${SECRET_ID}` +
+      '&q-sign-time=1557989151;1557996351&q-key-time=1557989151;1557996351' +
+      '&q-header-list=content-length;content-md5;content-type;date;host;x-cos-acl;x-cos-grant-read' +
+      '&q-url-param-list=&q-signature=3b8851a11a569213c17ba8fa7dcf2abec6935172'
+    );
+  });
+
+  it('生成官方 GET Object 示例的 Authorization', async () => {
+    expect(await getAuthorization(GET_OBJECT)).toBe(
+      `q-sign-algorithm=sha1&q-ak=${SECRET_ID}` +
+      '&q-sign-time=1557989753;1557996953&q-key-time=1557989753;1557996953' +
+      '&q-header-list=date;host&q-url-param-list=response-cache-control;response-content-type' +
+      '&q-signature=01681b8c9d798a678e43b685a9f1bba0f6c0e012'
+    );
+  });
+});
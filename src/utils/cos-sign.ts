@@ -0,0 +1,115 @@
+/**
+ * 腾讯云COS请求签名（XML API，q-sign-algorithm=sha1）
+ * 使用 Web Crypto 计算 HMAC-SHA1，算法见 https://cloud.tencent.com/document/product/436/7778
+ */
+
+export interface SignOptions {
+  secretId: string;
+  secretKey: string;
+  method: string;
+  pathname: string; // 以 / 开头的对象路径，不做编码，如 /audio/xxx.webm
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+  startTime?: number; // 秒级时间戳，默认当前时间
+  expiredTime: number; // 秒级时间戳，一般取临时密钥的 ExpiredTime
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * COS 要求的 URL 编码：在 encodeURIComponent 基础上额外编码 !'()*
+ */
+export function cosEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export async function sha1Hex(message: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-1', encoder.encode(message)));
+}
+
+export async function hmacSha1Hex(key: string, message: string): Promise<string> {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(key),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+  return toHex(await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(message)));
+}
+
+/**
+ * 生成参与签名的键值列表：key 小写后编码，按字典序排序
+ */
+function formatPairs(pairs: Record<string, string>): { keyList: string; formatted: string } {
+  const entries = Object.entries(pairs)
+    .map(([key, value]) => [cosEncode(key.toLowerCase()), cosEncode(value)] as const)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+  return {
+    keyList: entries.map(([key]) => key).join(';'),
+    formatted: entries.map(([key, value]) => `${key}=${value}`).join('&'),
+  };
+}
+
+/**
+ * 计算签名各步骤的中间结果，便于与官方示例逐项比对
+ */
+export async function buildSignature(options: SignOptions) {
+  const startTime = options.startTime ?? Math.floor(Date.now() / 1000);
+  const keyTime = `${startTime};${options.expiredTime}`;
+
+  const params = formatPairs(options.query || {});
+  const headers = formatPairs(options.headers || {});
+
+  const signKey = await hmacSha1Hex(options.secretKey, keyTime);
+  const httpString = [
+    options.method.toLowerCase(),
+    options.pathname,
+    params.formatted,
+    headers.formatted,
+    '',
+  ].join('\n');
+  const stringToSign = ['sha1', keyTime, await sha1Hex(httpString), ''].join('\n');
+  const signature = await hmacSha1Hex(signKey, stringToSign);
+
+  return {
+    keyTime,
+    signKey,
+    httpString,
+    stringToSign,
+    signature,
+    headerList: headers.keyList,
+    urlParamList: params.keyList,
+  };
+}
+
+/**
+ * 生成 Authorization 请求头
+ */
+export async function getAuthorization(options: SignOptions): Promise<string> {
+  const { keyTime, signature, headerList, urlParamList } = await buildSignature(options);
+  return [
+    'q-sign-algorithm=sha1',
+    `q-ak=${options.secretId}`,
+    `q-sign-time=${keyTime}`,
+    `q-key-time=${keyTime}`,
+    `q-header-list=${headerList}`,
+    `q-url-param-list=${urlParamList}`,
+    `q-signature=${signature}`,
+  ].join('&');
+}
+
+export default {
+  cosEncode,
+  sha1Hex,
+  hmacSha1Hex,
+  buildSignature,
+  getAuthorization,
+};
@@ -0,0 +1,238 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { uploadAudioSegment, uploadToCOSMultipart, uploadViaBackend, UploadProgress } from './cos-upload';
+
+interface ProgressStep {
+  loaded: number;
+  total: number;
+  lengthComputable: boolean;
+}
+
+interface FakeResponse {
+  status: number;
+  responseText?: string;
+  etag?: string;
+}
+
+let progressSteps: ProgressStep[] = [];
+let requests: { method: string; url: string; headers: Record<string, string> }[] = [];
+const backendUploaded = (): FakeResponse => ({
+  status: 200,
+  responseText: JSON.stringify({ success: true, url: 'https://api.example/0.mp3' }),
+});
+// 按请求方法和地址返回响应，默认是后端上传成功
+let respond: (method: string, url: string) => FakeResponse = backendUploaded;
+
+// 发送时依次触发上传进度事件，然后返回 respond 给出的响应
+class FakeXMLHttpRequest {
+  status = 0;
+  statusText = '';
+  responseText = '';
+  upload: { onprogress: ((event: ProgressStep) => void) | null } = { onprogress: null };
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  ontimeout: (() => void) | null = null;
+  private method = '';
+  private url = '';
+  private headers: Record<string, string> = {};
+  private etag: string | null = null;
+
+  open(method: string, url: string) {
+    this.method = method;
+    this.url = url;
+  }
+
+  setRequestHeader(name: string, value: string) {
+    this.headers[name] = value;
+  }
+
+  getResponseHeader(name: string) {
+    return name === 'ETag' ? this.etag : null;
+  }
+
+  send() {
+    requests.push({ method: this.method, url: this.url, headers: this.headers });
+    progressSteps.forEach(step => this.upload.onprogress?.(step));
+    const { status, responseText = '', etag = null } = respond(this.method, this.url);
+    this.status = status;
+    this.responseText = responseText;
+    this.etag = etag;
+    this.onload?.();
+  }
+}
+
+const audio = new Blob([new Uint8Array(1000)], { type: 'audio/mpeg' });
+
+const CREDENTIALS = { TmpSecretId: 'id', TmpSecretKey: 'key', Token: 'token', ExpiredTime: Math.floor(Date.now() / 1000) + 3600 };
+
+// 后端接口：临时密钥总是成功，登记接口的结果由 registerStatuses 依次给出
+function mockBackend(registerStatuses: number[] = [200]) {
+  const fetchMock = vi.fn(async (url: string, _init?: RequestInit) => {
+    if (url.endsWith('/api/upload/credentials')) {
+      return new Response(JSON.stringify({ success: true, credentials: CREDENTIALS }));
+    }
+    const status = registerStatuses.shift() ?? 200;
+    return new Response(JSON.stringify({ success: status === 200 }), { status });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+function registerCalls(fetchMock: ReturnType<typeof mockBackend>) {
+  return fetchMock.mock.calls
+    .filter(([url]) => url.endsWith('/api/upload/audio/complete'))
+    .map(([, init]) => JSON.parse(init!.body as string));
+}
+
+async function uploadWithProgress(steps: ProgressStep[]): Promise<UploadProgress[]> {
+  progressSteps = steps;
+  const onProgress = vi.fn();
+  const result = await uploadViaBackend(audio, 'task-1', 0, onProgress);
+  expect(result.success).toBe(true);
+  return onProgress.mock.calls.map(([progress]) => progress);
+}
+
+beforeEach(() => {
+  progressSteps = [];
+  requests = [];
+  respond = backendUploaded;
+  vi.stubGlobal('XMLHttpRequest', FakeXMLHttpRequest);
+});
+
+describe('uploadViaBackend 上传进度', () => {
+  it('按表单请求体的总字节数计算进度', async () => {
+    const progress = await uploadWithProgress([
+      { loaded: 600, total: 1200, lengthComputable: true },
+      { loaded: 1200, total: 1200, lengthComputable: true },
+    ]);
+
+    expect(progress.map(({ total, percent }) => ({ total, percent }))).toEqual([
+      { total: 1200, percent: 50 },
+      { total: 1200, percent: 100 },
+    ]);
+  });
+
+  it('拿不到总字节数时按音频大小估算', async () => {
+    const progress = await uploadWithProgress([{ loaded: 500, total: 0, lengthComputable: false }]);
+
+    expect(progress[0]).toMatchObject({ loaded: 500, total: 1000, percent: 50 });
+  });
+});
+
+describe('uploadAudioSegment COS 直传', () => {
+  beforeEach(() => {
+    respond = () => ({ status: 200 });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('上传完成后把地址和附加字段登记到后端', async () => {
+    const fetchMock = mockBackend();
+
+    const result = await uploadAudioSegment(audio, 'task-1', 0, undefined, { transcript: '生日快乐' }, 'cos-only');
+
+    expect(result).toMatchObject({ success: true, method: 'cos', attempts: 1 });
+    expect(requests).toMatchObject([{ method: 'PUT', url: expect.stringContaining(`/${result.key}`) }]);
+    expect(registerCalls(fetchMock)).toEqual([
+      { task_id: 'task-1', segment_index: 0, key: result.key, url: result.url, transcript: '生日快乐' },
+    ]);
+  });
+
+  it('长文字稿不作为 COS 元数据发送，随登记请求提交', async () => {
+    const fetchMock = mockBackend();
+    const transcript = '亲爱的妈妈，生日快乐！'.repeat(50);
+
+    const result = await uploadAudioSegment(audio, 'task-1', 0, undefined, { transcript }, 'cos-only');
+
+    expect(result).toMatchObject({ success: true, attempts: 1 });
+    expect(Object.keys(requests[0].headers).filter(name => name.startsWith('x-cos-meta-'))).toEqual([]);
+    expect(registerCalls(fetchMock)[0].transcript).toBe(transcript);
+  });
+
+  it('登记失败不算上传成功，重试时覆盖同一个对象', async () => {
+    const fetchMock = mockBackend([500, 200]);
+    // 第一次取随机数生成 key，之后的退避等待为 0
+    vi.spyOn(Math, 'random').mockReturnValueOnce(0.123456).mockReturnValue(0);
+
+    const result = await uploadAudioSegment(audio, 'task-1', 0, undefined, {}, 'cos-only');
+
+    expect(result).toMatchObject({ success: true, attempts: 2 });
+    expect(requests).toHaveLength(2);
+    expect(requests[1].url).toBe(requests[0].url);
+    expect(registerCalls(fetchMock).map(({ key }) => key)).toEqual([result.key, result.key]);
+  });
+
+  it('一直登记失败时返回后端的 HTTP 状态', async () => {
+    mockBackend([500, 500]);
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+
+    const result = await uploadAudioSegment(audio, 'task-1', 0, undefined, {}, 'cos-only');
+
+    expect(result).toMatchObject({ success: false, attempts: 2, status: 500 });
+  });
+});
+
+describe('uploadToCOSMultipart 断点续传', () => {
+  const PART_SIZE = 1024 * 1024;
+  // 2.5MB，分 3 块
+  const recording = (fill: number) => new Blob([new Uint8Array(2.5 * PART_SIZE).fill(fill)], { type: 'audio/mpeg' });
+  let failingPart: number | null = null;
+  let uploadCount = 0;
+
+  beforeEach(() => {
+    failingPart = null;
+    uploadCount = 0;
+    respond = (method, url) => {
+      const { searchParams } = new URL(url);
+      if (method === 'POST' && searchParams.has('uploads')) {
+        uploadCount++;
+        return { status: 200, responseText: `<InitiateMultipartUploadResult><UploadId>upload-${uploadCount}</UploadId></InitiateMultipartUploadResult>` };
+      }
+      const partNumber = Number(searchParams.get('partNumber'));
+      if (method === 'PUT' && partNumber === failingPart) {
+        return { status: 500 };
+      }
+      return method === 'PUT' ? { status: 200, etag: `"etag-${partNumber}"` } : { status: 200 };
+    };
+  });
+
+  const describeRequests = () => requests.map(({ method, url }) => {
+    const { searchParams } = new URL(url);
+    if (searchParams.has('uploads')) return 'initiate';
+    if (searchParams.has('partNumber')) return `part ${searchParams.get('partNumber')} of ${searchParams.get('uploadId')}`;
+    return `${method === 'POST' ? 'complete' : method} ${searchParams.get('uploadId')}`;
+  });
+
+  it('同一份录音从已完成的分块继续上传', async () => {
+    const blob = recording(1);
+    failingPart = 2;
+    const first = await uploadToCOSMultipart(blob, 'audio/task-1/segment_0.mp3', CREDENTIALS, 'task-1_0');
+    expect(first.success).toBe(false);
+
+    requests = [];
+    failingPart = null;
+    const second = await uploadToCOSMultipart(recording(1), 'audio/task-1/segment_0_new.mp3', CREDENTIALS, 'task-1_0');
+
+    expect(second).toMatchObject({ success: true, key: 'audio/task-1/segment_0.mp3' });
+    expect(describeRequests()).toEqual(['part 2 of upload-1', 'part 3 of upload-1', 'complete upload-1']);
+  });
+
+  it('大小相同但内容不同的录音重新初始化上传', async () => {
+    failingPart = 2;
+    await uploadToCOSMultipart(recording(1), 'audio/task-1/segment_0.mp3', CREDENTIALS, 'task-1_0');
+
+    requests = [];
+    failingPart = null;
+    const result = await uploadToCOSMultipart(recording(2), 'audio/task-1/segment_0_new.mp3', CREDENTIALS, 'task-1_0');
+
+    expect(result).toMatchObject({ success: true, key: 'audio/task-1/segment_0_new.mp3' });
+    expect(describeRequests()).toEqual([
+      'initiate',
+      'part 1 of upload-2',
+      'part 2 of upload-2',
+      'part 3 of upload-2',
+      'complete upload-2',
+    ]);
+  });
+});
@@ -3,6 +3,10 @@
  * 用于前端直接上传音频文件到COS，避免经过服务器中转
  */
 
+import { getAuthorization } from './cos-sign';
+import { getAudioExtension } from './audio-encoder';
+import { apiUrl, fetchUploadCredentials, parseApiResponse, registerUploadedAudio, validateUploadedFile } from './api-client';
+
 export interface COSCredentials {
   TmpSecretId: string;
   TmpSecretKey: string;
@@ -10,45 +14,146 @@ export interface COSCredentials {
   ExpiredTime: number;
 }
 
+export type UploadMethod = 'cos' | 'cos-multipart' | 'backend';
+
+/**
+ * 上传策略：
+ * - cos-first：优先COS直传，失败后改走后端代理（默认）
+ * - backend-first：优先后端代理，失败后改走COS直传
+ * - cos-only / backend-only：只使用一种方式
+ */
+export type UploadStrategy = 'cos-first' | 'backend-first' | 'cos-only' | 'backend-only';
+
+// 随音频提交的附加字段（文字稿、质量指标）：后端上传时作为表单字段，COS直传时随登记请求提交
+// 不放进 x-cos-meta-* 元数据：COS 限制元数据合计 2KB，两百多字的中文文字稿编码后就会超出
+export type UploadFields = Record<string, string>;
+
 export interface UploadResult {
   success: boolean;
   url?: string;
   key?: string;
   error?: string;
+  method?: UploadMethod; // 实际成功的上传方式，用于统计
+  attempts?: number;
+  status?: number; // 后端上传失败时的 HTTP 状态
+}
+
+export interface UploadProgress {
+  loaded: number; // 已发送字节数
+  total: number;
+  percent: number; // 0-100
+  remainingSeconds: number | null; // 预计剩余时间，速率未知时为 null
+}
+
+interface XHRResponse {
+  status: number;
+  statusText: string;
+  responseText: string;
+  etag: string | null; // 分块上传需要，COS 跨域配置须暴露 ETag 头
 }
 
 const COS_BUCKET = import.meta.env.VITE_COS_BUCKET || 'voice-capsule-125xxxxxx';
 const COS_REGION = import.meta.env.VITE_COS_REGION || 'ap-guangzhou';
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'https://voice-capsule-api.vercel.app';
+// 可指向本地的 COS 模拟服务做联调，如 http://localhost:9000
+const COS_ENDPOINT = import.meta.env.VITE_COS_ENDPOINT || `https://${COS_BUCKET}.cos.${COS_REGION}.myqcloud.com`;
+
+const PART_SIZE = 1024 * 1024; // COS 要求除最后一块外每块至少1MB
+// 超过一块就分块上传：64kbps 的 MP3 约2分钟超过1MB，编码失败退回 WAV 时十几秒就超过
+// 可用 VITE_MULTIPART_THRESHOLD（字节）调整，联调断点续传时可调小
+export const MULTIPART_THRESHOLD = Number(import.meta.env.VITE_MULTIPART_THRESHOLD) || PART_SIZE;
+const PART_MAX_RETRIES = 3; // 每块最多重试3次
+const MULTIPART_STATE_PREFIX = 'cos-multipart:';
+const FINGERPRINT_SAMPLE_SIZE = 1024 * 1024; // 录音指纹取首尾各1MB
+
+const UPLOAD_STRATEGY = (import.meta.env.VITE_UPLOAD_STRATEGY || 'cos-first') as UploadStrategy;
+const ATTEMPTS_PER_METHOD = 2; // 每种方式最多尝试2次
+const BACKOFF_BASE = 1000; // 退避基数1秒
+const BACKOFF_MAX = 10000; // 单次退避最长10秒
+const CREDENTIALS_REFRESH_MARGIN = 5 * 60; // 临时密钥过期前5分钟刷新
+
+let cachedCredentials: COSCredentials | null = null;
 
 /**
- * 从后端获取临时密钥
+ * 把已发送字节数换算为进度（含按平均速率估算的剩余时间）
+ * 请求体总字节数以上传事件为准（表单上传比音频本身大），事件拿不到时才用 fallbackTotal
  */
-export async function getTempCredentials(): Promise<COSCredentials | null> {
-  try {
-    const response = await fetch(`${API_BASE_URL}/api/upload/credentials`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+function createProgressReporter(fallbackTotal: number, onProgress?: (progress: UploadProgress) => void) {
+  const startTime = performance.now();
+  return (loaded: number, total: number = fallbackTotal) => {
+    if (!onProgress) return;
+    const elapsed = (performance.now() - startTime) / 1000;
+    const rate = elapsed > 0 ? loaded / elapsed : 0; // 字节/秒
+    onProgress({
+      loaded,
+      total,
+      percent: total > 0 ? Math.min(100, Math.round((loaded / total) * 100)) : 0,
+      remainingSeconds: rate > 0 ? Math.max(0, Math.ceil((total - loaded) / rate)) : null,
     });
+  };
+}
 
-    if (!response.ok) {
-      throw new Error('获取临时密钥失败');
+/**
+ * 基于 XMLHttpRequest 的请求（fetch 无法获取上传进度）
+ */
+function xhrRequest(
+  method: string,
+  url: string,
+  body: Blob | FormData | string | null,
+  headers: Record<string, string> = {},
+  onUploaded?: (loaded: number, total?: number) => void
+): Promise<XHRResponse> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, url);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+    if (onUploaded) {
+      xhr.upload.onprogress = (event) => {
+        onUploaded(event.loaded, event.lengthComputable ? event.total : undefined);
+      };
     }
 
-    const data = await response.json();
-    return data.credentials;
-  } catch (error) {
-    console.error('获取COS临时密钥失败:', error);
+    xhr.onload = () => resolve({
+      status: xhr.status,
+      statusText: xhr.statusText,
+      responseText: xhr.responseText,
+      etag: xhr.getResponseHeader('ETag'),
+    });
+    xhr.onerror = () => reject(new Error('网络错误'));
+    xhr.ontimeout = () => reject(new Error('上传超时'));
+    xhr.send(body);
+  });
+}
+
+/**
+ * 从后端获取临时密钥
+ */
+export async function getTempCredentials(): Promise<COSCredentials | null> {
+  const result = await fetchUploadCredentials();
+  if (!result.success) {
+    console.error('获取COS临时密钥失败:', result.error);
     return null;
   }
+  return result.data;
+}
+
+/**
+ * 获取缓存的临时密钥，临近 ExpiredTime 时重新获取
+ */
+export async function getCachedCredentials(forceRefresh: boolean = false): Promise<COSCredentials | null> {
+  const now = Math.floor(Date.now() / 1000);
+  if (!forceRefresh && cachedCredentials && cachedCredentials.ExpiredTime - now > CREDENTIALS_REFRESH_MARGIN) {
+    return cachedCredentials;
+  }
+
+  cachedCredentials = await getTempCredentials();
+  return cachedCredentials;
 }
 
 /**
  * 生成唯一的文件Key
  */
-export function generateFileKey(taskId: string, segmentIndex: number, extension: string = 'webm'): string {
+export function generateFileKey(taskId: string, segmentIndex: number, extension: string = 'mp3'): string {
   const timestamp = Date.now();
   const random = Math.random().toString(36).substring(2, 8);
   return `audio/${taskId}/segment_${segmentIndex}_${timestamp}_${random}.${extension}`;
@@ -56,39 +161,45 @@ export function generateFileKey(taskId: string, segmentIndex: number, extension:
 
 /**
  * 使用临时密钥上传文件到COS
- * 注意：这里使用简单的POST表单上传方式，适合小文件
+ * 注意：这里使用简单的PUT Object上传方式，适合小文件
  */
 export async function uploadToCOS(
   blob: Blob,
   key: string,
-  credentials: COSCredentials
+  credentials: COSCredentials,
+  onProgress?: (progress: UploadProgress) => void
 ): Promise<UploadResult> {
   try {
     // 构建COS上传URL
-    const uploadUrl = `https://${COS_BUCKET}.cos.${COS_REGION}.myqcloud.com/${key}`;
+    const uploadUrl = `${COS_ENDPOINT}/${key}`;
+    const contentType = blob.type || 'audio/mpeg';
 
-    // 构建表单数据
-    const formData = new FormData();
-    formData.append('key', key);
-    formData.append('file', blob, 'audio.webm');
-
-    // 使用fetch上传
-    const response = await fetch(uploadUrl, {
+    // 签名 host 与 content-type，浏览器会自动带上 Host 头
+    const authorization = await getAuthorization({
+      secretId: credentials.TmpSecretId,
+      secretKey: credentials.TmpSecretKey,
       method: 'PUT',
+      pathname: `/${key}`,
       headers: {
-        'Authorization': `q-sign-algorithm=sha1&q-ak=${credentials.TmpSecretId}&q-sign-time=${Math.floor(Date.now()/1000)};${credentials.ExpiredTime}&q-key-time=${Math.floor(Date.now()/1000)};${credentials.ExpiredTime}&q-header-list=host&q-url-param-list=&q-signature=${credentials.Token}`,
-        'Content-Type': 'audio/webm',
-        'x-cos-security-token': credentials.Token,
+        host: new URL(uploadUrl).host,
+        'content-type': contentType,
       },
-      body: blob,
+      expiredTime: credentials.ExpiredTime,
     });
 
-    if (!response.ok) {
+    // 使用XHR上传（可获取进度）
+    const response = await xhrRequest('PUT', uploadUrl, blob, {
+      'Authorization': authorization,
+      'Content-Type': contentType,
+      'x-cos-security-token': credentials.Token,
+    }, createProgressReporter(blob.size, onProgress));
+
+    if (response.status < 200 || response.status >= 300) {
       throw new Error(`上传失败: ${response.status} ${response.statusText}`);
     }
 
     // 构建访问URL
-    const fileUrl = `https://${COS_BUCKET}.cos.${COS_REGION}.myqcloud.com/${key}`;
+    const fileUrl = `${COS_ENDPOINT}/${key}`;
 
     return {
       success: true,
@@ -104,6 +215,247 @@ export async function uploadToCOS(
   }
 }
 
+interface MultipartState {
+  key: string;
+  uploadId: string;
+  fingerprint: string; // 用于确认续传的是同一份录音
+  parts: { partNumber: number; etag: string }[];
+}
+
+/**
+ * 分块上传进度保存在 localStorage，刷新页面后（录音 blob 由本地会话恢复）可从断点续传
+ */
+function loadMultipartState(stateKey: string): MultipartState | null {
+  try {
+    const raw = localStorage.getItem(MULTIPART_STATE_PREFIX + stateKey);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveMultipartState(stateKey: string, state: MultipartState) {
+  try {
+    localStorage.setItem(MULTIPART_STATE_PREFIX + stateKey, JSON.stringify(state));
+  } catch (error) {
+    console.warn('保存分块上传进度失败:', error);
+  }
+}
+
+function clearMultipartState(stateKey: string) {
+  localStorage.removeItem(MULTIPART_STATE_PREFIX + stateKey);
+}
+
+const checkpointKey = (taskId: string, segmentIndex: number) => `${taskId}_${segmentIndex}`;
+
+/**
+ * 丢弃某段的分块上传断点（重录后旧录音的分块不能再用）
+ */
+export function clearUploadCheckpoint(taskId: string, segmentIndex: number) {
+  clearMultipartState(checkpointKey(taskId, segmentIndex));
+}
+
+/**
+ * 录音内容指纹：首尾各1MB加文件大小的 SHA-256，大小恰好相同的重录也能区分
+ */
+async function getBlobFingerprint(blob: Blob): Promise<string> {
+  const head = blob.slice(0, FINGERPRINT_SAMPLE_SIZE);
+  const tail = blob.slice(Math.max(0, blob.size - FINGERPRINT_SAMPLE_SIZE));
+  const data = await new Blob([head, tail, String(blob.size)]).arrayBuffer();
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * 发送带签名的 COS 请求
+ */
+async function cosRequest(
+  method: string,
+  key: string,
+  query: Record<string, string>,
+  credentials: COSCredentials,
+  body: Blob | string | null,
+  contentType?: string,
+  onUploaded?: (loaded: number) => void
+): Promise<XHRResponse> {
+  const search = Object.entries(query)
+    .map(([name, value]) => (value ? `${name}=${encodeURIComponent(value)}` : name))
+    .join('&');
+  const url = `${COS_ENDPOINT}/${key}${search ? `?${search}` : ''}`;
+
+  const signedHeaders: Record<string, string> = { host: new URL(url).host };
+  if (contentType) signedHeaders['content-type'] = contentType;
+
+  const authorization = await getAuthorization({
+    secretId: credentials.TmpSecretId,
+    secretKey: credentials.TmpSecretKey,
+    method,
+    pathname: `/${key}`,
+    query,
+    headers: signedHeaders,
+    expiredTime: credentials.ExpiredTime,
+  });
+
+  const headers: Record<string, string> = {
+    'Authorization': authorization,
+    'x-cos-security-token': credentials.Token,
+  };
+  if (contentType) headers['Content-Type'] = contentType;
+
+  return xhrRequest(method, url, body, headers, onUploaded);
+}
+
+/**
+ * 初始化分块上传，返回 UploadId
+ */
+async function initiateMultipartUpload(
+  key: string,
+  credentials: COSCredentials,
+  contentType: string
+): Promise<string> {
+  const response = await cosRequest('POST', key, { uploads: '' }, credentials, null, contentType);
+  const uploadId = response.responseText.match(/<UploadId>([^<]+)<\/UploadId>/)?.[1];
+  if (response.status !== 200 || !uploadId) {
+    throw new Error(`初始化分块上传失败: ${response.status}`);
+  }
+  return uploadId;
+}
+
+/**
+ * 上传单个分块，失败时重试
+ */
+async function uploadPart(
+  key: string,
+  uploadId: string,
+  partNumber: number,
+  chunk: Blob,
+  credentials: COSCredentials,
+  onUploaded: (loaded: number) => void
+): Promise<string> {
+  let lastError: unknown = null;
+
+  for (let attempt = 0; attempt < PART_MAX_RETRIES; attempt++) {
+    try {
+      const response = await cosRequest(
+        'PUT',
+        key,
+        { partNumber: String(partNumber), uploadId },
+        credentials,
+        chunk,
+        undefined,
+        onUploaded
+      );
+      // UploadId 已失效（过期或被清理），重试无意义
+      if (response.status === 404) {
+        throw Object.assign(new Error('分块上传已失效'), { noSuchUpload: true });
+      }
+      if (response.status !== 200 || !response.etag) {
+        throw new Error(`分块 ${partNumber} 上传失败: ${response.status}`);
+      }
+      return response.etag;
+    } catch (error) {
+      if ((error as { noSuchUpload?: boolean }).noSuchUpload) throw error;
+      lastError = error;
+      console.warn(`分块 ${partNumber} 第 ${attempt + 1} 次上传失败:`, error);
+      onUploaded(0);
+    }
+  }
+
+  throw lastError instanceof Error ? lastError : new Error(`分块 ${partNumber} 上传失败`);
+}
+
+/**
+ * 完成分块上传
+ */
+async function completeMultipartUpload(
+  key: string,
+  uploadId: string,
+  parts: MultipartState['parts'],
+  credentials: COSCredentials
+): Promise<void> {
+  const body = [
+    '<CompleteMultipartUpload>',
+    ...[...parts]
+      .sort((a, b) => a.partNumber - b.partNumber)
+      .map(({ partNumber, etag }) => `<Part><PartNumber>${partNumber}</PartNumber><ETag>${etag}</ETag></Part>`),
+    '</CompleteMultipartUpload>',
+  ].join('');
+
+  const response = await cosRequest('POST', key, { uploadId }, credentials, body, 'application/xml');
+  if (response.status !== 200) {
+    throw new Error(`完成分块上传失败: ${response.status}`);
+  }
+}
+
+/**
+ * 分块上传到COS（适合较大的录音）
+ * stateKey 标识同一段录音，刷新页面后用相同 stateKey 调用即可跳过已上传的分块
+ */
+export async function uploadToCOSMultipart(
+  blob: Blob,
+  key: string,
+  credentials: COSCredentials,
+  stateKey: string,
+  onProgress?: (progress: UploadProgress) => void
+): Promise<UploadResult> {
+  const contentType = blob.type || 'audio/mpeg';
+  const report = createProgressReporter(blob.size, onProgress);
+
+  try {
+    const fingerprint = await getBlobFingerprint(blob);
+    let state = loadMultipartState(stateKey);
+    if (!state || state.fingerprint !== fingerprint) {
+      state = {
+        key,
+        uploadId: await initiateMultipartUpload(key, credentials, contentType),
+        fingerprint,
+        parts: [],
+      };
+      saveMultipartState(stateKey, state);
+    } else {
+      console.log('♻️ 续传分块上传:', state.key, '已完成', state.parts.length, '块');
+    }
+
+    const partCount = Math.ceil(blob.size / PART_SIZE);
+    for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+      if (state.parts.some(part => part.partNumber === partNumber)) continue;
+
+      const start = (partNumber - 1) * PART_SIZE;
+      const chunk = blob.slice(start, Math.min(start + PART_SIZE, blob.size));
+      const uploadedBytes = state.parts.reduce(
+        (sum, part) => sum + Math.min(PART_SIZE, blob.size - (part.partNumber - 1) * PART_SIZE),
+        0
+      );
+
+      const etag = await uploadPart(state.key, state.uploadId, partNumber, chunk, credentials, (loaded) => {
+        report(uploadedBytes + loaded);
+      });
+
+      state.parts.push({ partNumber, etag });
+      saveMultipartState(stateKey, state);
+    }
+
+    await completeMultipartUpload(state.key, state.uploadId, state.parts, credentials);
+    clearMultipartState(stateKey);
+
+    return {
+      success: true,
+      url: `${COS_ENDPOINT}/${state.key}`,
+      key: state.key,
+    };
+  } catch (error) {
+    console.error('COS分块上传失败:', error);
+    // 上传已失效时丢弃断点，下次重新初始化
+    if ((error as { noSuchUpload?: boolean }).noSuchUpload) {
+      clearMultipartState(stateKey);
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : '上传失败',
+    };
+  }
+}
+
 /**
  * 简化版上传：直接通过后端代理上传
  * 适用于不想处理COS签名的场景
@@ -111,13 +463,16 @@ export async function uploadToCOS(
 export async function uploadViaBackend(
   blob: Blob,
   taskId: string,
-  segmentIndex: number
+  segmentIndex: number,
+  onProgress?: (progress: UploadProgress) => void,
+  fields: UploadFields = {}
 ): Promise<UploadResult> {
   try {
     const formData = new FormData();
-    formData.append('audio', blob, `segment_${segmentIndex}.webm`);
+    formData.append('audio', blob, `segment_${segmentIndex}.${getAudioExtension(blob.type)}`);
     formData.append('task_id', taskId);        // 确认是下划线
     formData.append('segment_index', segmentIndex.toString());
+    Object.entries(fields).forEach(([name, value]) => formData.append(name, value));
 
     // ✅ 加在这里：打印 FormData
     console.log('=== 上传调试信息 ===');
@@ -129,20 +484,17 @@ export async function uploadViaBackend(
     }
     console.log('===================');
 
-    const response = await fetch(`${API_BASE_URL}/api/upload/audio`, {
-      method: 'POST',
-      body: formData,
-    });
-
-    if (!response.ok) {
-      throw new Error('上传失败');
+    const response = await xhrRequest('POST', apiUrl('/api/upload/audio'), formData, {}, createProgressReporter(blob.size, onProgress));
+    const result = parseApiResponse(response.status, response.responseText, validateUploadedFile);
+    if (!result.success) {
+      console.error('上传失败:', result.error);
+      return { success: false, error: result.error, status: result.status };
     }
 
-    const data = await response.json();
     return {
       success: true,
-      url: data.url,
-      key: data.key,
+      url: result.data.url,
+      key: result.data.key,
     };
   } catch (error) {
     console.error('上传失败:', error);
@@ -154,22 +506,157 @@ export async function uploadViaBackend(
 }
 
 /**
- * 完整的上传流程
+ * 指数退避 + 全抖动：第 n 次重试前等待 [0, min(BACKOFF_MAX, BACKOFF_BASE * 2^n)) 毫秒
+ */
+export function getBackoffDelay(retry: number): number {
+  const ceiling = Math.min(BACKOFF_MAX, BACKOFF_BASE * 2 ** retry);
+  return Math.floor(Math.random() * ceiling);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function getMethodOrder(strategy: UploadStrategy): ('cos' | 'backend')[] {
+  switch (strategy) {
+    case 'backend-first': return ['backend', 'cos'];
+    case 'cos-only': return ['cos'];
+    case 'backend-only': return ['backend'];
+    default: return ['cos', 'backend'];
+  }
+}
+
+/**
+ * COS直传：较大的录音走分块上传，断网后可从已完成的分块继续
+ * 上传完成后登记到后端，登记成功才算上传成功（否则后端不知道这段录音）
+ * key 由调用方为每段生成一次，重试时覆盖同一个对象，不留下无主文件
+ */
+async function uploadViaCOS(
+  blob: Blob,
+  key: string,
+  taskId: string,
+  segmentIndex: number,
+  onProgress?: (progress: UploadProgress) => void,
+  fields: UploadFields = {}
+): Promise<UploadResult> {
+  const credentials = await getCachedCredentials();
+  if (!credentials) {
+    return { success: false, error: '获取临时密钥失败' };
+  }
+
+  const result = blob.size > MULTIPART_THRESHOLD
+    ? { ...await uploadToCOSMultipart(blob, key, credentials, checkpointKey(taskId, segmentIndex), onProgress), method: 'cos-multipart' as const }
+    : { ...await uploadToCOS(blob, key, credentials, onProgress), method: 'cos' as const };
+
+  // 密钥可能已被提前吊销，下次尝试重新获取
+  if (!result.success) {
+    cachedCredentials = null;
+    return result;
+  }
+
+  const registered = await registerUploadedAudio(taskId, segmentIndex, { key: result.key, url: result.url! }, fields);
+  if (!registered.success) {
+    return { success: false, error: registered.error, status: registered.status };
+  }
+  return result;
+}
+
+/**
+ * 完整的上传流程：按上传策略依次尝试，每次失败后指数退避再重试
  */
 export async function uploadAudioSegment(
   blob: Blob,
   taskId: string,
   segmentIndex: number,
-  _onProgress?: (progress: number) => void
+  onProgress?: (progress: UploadProgress) => void,
+  fields: UploadFields = {},
+  strategy: UploadStrategy = UPLOAD_STRATEGY
 ): Promise<UploadResult> {
-  // 优先尝试通过后端上传（更简单可靠）
-  return uploadViaBackend(blob, taskId, segmentIndex);
+  let attempts = 0;
+  let lastError = '上传失败';
+  let lastStatus: number | undefined;
+  const key = generateFileKey(taskId, segmentIndex, getAudioExtension(blob.type));
+
+  for (const method of getMethodOrder(strategy)) {
+    for (let i = 0; i < ATTEMPTS_PER_METHOD; i++) {
+      if (attempts > 0) {
+        const delay = getBackoffDelay(attempts - 1);
+        console.log(`⏳ ${delay}ms 后重试上传（${method}）`);
+        await sleep(delay);
+      }
+      attempts++;
+
+      const result = method === 'cos'
+        ? await uploadViaCOS(blob, key, taskId, segmentIndex, onProgress, fields)
+        : { ...await uploadViaBackend(blob, taskId, segmentIndex, onProgress, fields), method: 'backend' as const };
+
+      if (result.success) {
+        // 其他方式已成功，丢弃未完成的分块上传断点
+        if (result.method !== 'cos-multipart') {
+          clearUploadCheckpoint(taskId, segmentIndex);
+        }
+        console.log('📤 上传成功，方式:', result.method, '尝试次数:', attempts);
+        return { ...result, attempts };
+      }
+
+      lastError = result.error || lastError;
+      lastStatus = result.status;
+      console.warn(`上传失败（${method}，第 ${attempts} 次）:`, lastError);
+    }
+  }
+
+  return { success: false, error: lastError, attempts, status: lastStatus };
+}
+
+/**
+ * 上传背景音乐文件：优先COS直传，失败时走后端
+ */
+export async function uploadMusicFile(file: File, taskId: string): Promise<UploadResult> {
+  const extension = file.name.split('.').pop()?.toLowerCase() || getAudioExtension(file.type);
+
+  const credentials = await getCachedCredentials();
+  if (credentials) {
+    const timestamp = Date.now();
+    const random = Math.random().toString(36).substring(2, 8);
+    const result = await uploadToCOS(file, `music/${taskId}/${timestamp}_${random}.${extension}`, credentials);
+    if (result.success) {
+      return { ...result, method: 'cos' };
+    }
+  }
+
+  try {
+    const formData = new FormData();
+    formData.append('music', file, file.name);
+    formData.append('task_id', taskId);
+
+    const response = await xhrRequest('POST', apiUrl('/api/upload/music'), formData, {});
+    const result = parseApiResponse(response.status, response.responseText, validateUploadedFile);
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    return {
+      success: true,
+      url: result.data.url,
+      key: result.data.key,
+      method: 'backend',
+    };
+  } catch (error) {
+    console.error('背景音乐上传失败:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : '上传失败',
+    };
+  }
 }
 
 export default {
   getTempCredentials,
+  getCachedCredentials,
+  getBackoffDelay,
   generateFileKey,
   uploadToCOS,
+  uploadToCOSMultipart,
+  clearUploadCheckpoint,
   uploadViaBackend,
   uploadAudioSegment,
+  uploadMusicFile,
 };
@@ -0,0 +1,31 @@
+/**
+ * 本地 IndexedDB
+ * 页面与 Service Worker（src/sw.ts）共用同一个数据库
+ */
+
+export const DB_NAME = 'voice-capsule';
+export const DB_VERSION = 2;
+export const SESSION_STORE = 'session';
+export const UPLOAD_QUEUE_STORE = 'upload-queue';
+
+export function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (!('indexedDB' in self)) {
+      reject(new Error('当前浏览器不支持 IndexedDB'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        db.createObjectStore(SESSION_STORE);
+      }
+      if (!db.objectStoreNames.contains(UPLOAD_QUEUE_STORE)) {
+        db.createObjectStore(UPLOAD_QUEUE_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
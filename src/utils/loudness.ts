@@ -0,0 +1,113 @@
+/**
+ * 响度测量与均衡
+ * 按 ITU-R BS.1770 计算整段积分响度（LUFS），播放时把各段调整到同一目标响度
+ */
+
+import { MonoAudio } from './audio-buffer';
+
+export const TARGET_LUFS = -16; // 手机外放常用的目标响度
+const MAX_GAIN_DB = 12; // 最多提升12dB，避免把底噪放得太大
+const MIN_GAIN_DB = -12;
+
+const BLOCK_SECONDS = 0.4; // 400ms 测量块
+const BLOCK_STEP_SECONDS = 0.1; // 块之间重叠75%
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+/**
+ * K 计权滤波器系数（高搁架 + 高通），按采样率换算
+ */
+function getKWeighting(sampleRate: number): [Biquad, Biquad] {
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const Q1 = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q1 + K * K;
+  const shelf: Biquad = {
+    b0: (Vh + (Vb * K) / Q1 + K * K) / a0,
+    b1: (2 * (K * K - Vh)) / a0,
+    b2: (Vh - (Vb * K) / Q1 + K * K) / a0,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q1 + K * K) / a0,
+  };
+
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  const Q2 = 0.5003270373238773;
+  a0 = 1 + K / Q2 + K * K;
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q2 + K * K) / a0,
+  };
+
+  return [shelf, highPass];
+}
+
+function applyBiquad(input: Float32Array, { b0, b1, b2, a1, a2 }: Biquad): Float32Array {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+    output[i] = y;
+  }
+  return output;
+}
+
+const toLufs = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+
+/**
+ * 计算单声道音频的积分响度，整段静音时返回 null
+ */
+export function measureLoudness({ samples, sampleRate }: MonoAudio): number | null {
+  const [shelf, highPass] = getKWeighting(sampleRate);
+  const weighted = applyBiquad(applyBiquad(samples, shelf), highPass);
+
+  const blockSize = Math.min(weighted.length, Math.round(BLOCK_SECONDS * sampleRate));
+  const step = Math.max(1, Math.round(BLOCK_STEP_SECONDS * sampleRate));
+  if (blockSize === 0) return null;
+
+  // 各测量块的均方值
+  const blocks: number[] = [];
+  for (let start = 0; start + blockSize <= weighted.length; start += step) {
+    let sum = 0;
+    for (let i = start; i < start + blockSize; i++) sum += weighted[i] * weighted[i];
+    blocks.push(sum / blockSize);
+  }
+
+  // 绝对门限去掉静音块，相对门限去掉停顿间隙
+  const audible = blocks.filter(ms => ms > 0 && toLufs(ms) > ABSOLUTE_GATE);
+  if (audible.length === 0) return null;
+
+  const relativeGate = toLufs(audible.reduce((sum, ms) => sum + ms, 0) / audible.length) + RELATIVE_GATE;
+  const gated = audible.filter(ms => toLufs(ms) > relativeGate);
+  return toLufs(gated.reduce((sum, ms) => sum + ms, 0) / gated.length);
+}
+
+/**
+ * 把响度调整到目标值所需的线性增益，无法测量时不做调整
+ */
+export function getNormalizationGain(loudness: number | null | undefined, target: number = TARGET_LUFS): number {
+  if (loudness === null || loudness === undefined || !isFinite(loudness)) return 1;
+  const gainDb = Math.max(MIN_GAIN_DB, Math.min(MAX_GAIN_DB, target - loudness));
+  return Math.pow(10, gainDb / 20);
+}
+
+export default {
+  measureLoudness,
+  getNormalizationGain,
+};
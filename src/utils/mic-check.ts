@@ -0,0 +1,149 @@
+/**
+ * 录音前的麦克风检测
+ * 申请权限、选择输入设备，测量环境底噪和试音音量并给出结论
+ */
+
+const DEVICE_KEY = 'voice-capsule:mic-device-id';
+
+export const NOISE_SAMPLE_MS = 2000; // 测量环境底噪的时长
+export const TEST_CLIP_MS = 3000; // 试音时长
+
+const SAMPLE_INTERVAL = 50; // 每50ms取一次音量
+const NOISE_WARN_DB = -50; // 底噪高于此值认为环境较吵
+const VOICE_QUIET_DB = -35; // 试音低于此值认为声音太小
+const VOICE_LOUD_DB = -3; // 试音高于此值可能爆音
+const MIN_SNR_DB = 15; // 人声至少比底噪高15dB
+
+export type MicVerdict = 'pass' | 'warn';
+
+export interface MicCheckResult {
+  noiseDb: number;
+  voiceDb: number;
+  verdict: MicVerdict;
+  warnings: string[];
+}
+
+/**
+ * 读取/保存用户选择的麦克风
+ */
+export function getPreferredMicId(): string | null {
+  return localStorage.getItem(DEVICE_KEY);
+}
+
+export function setPreferredMicId(deviceId: string | null) {
+  if (deviceId) {
+    localStorage.setItem(DEVICE_KEY, deviceId);
+  } else {
+    localStorage.removeItem(DEVICE_KEY);
+  }
+}
+
+/**
+ * 录音与检测共用的采集参数，保证检测结果与实际录音一致
+ */
+export function getAudioConstraints(deviceId: string | null = getPreferredMicId()): MediaTrackConstraints {
+  return {
+    echoCancellation: true,
+    noiseSuppression: true,
+    sampleRate: 44100,
+    // 设备被拔出时 ideal 会退回默认麦克风，exact 则直接失败
+    ...(deviceId ? { deviceId: { ideal: deviceId } } : {}),
+  };
+}
+
+/**
+ * 把 getUserMedia 的异常转换为提示文案
+ */
+export function getMicErrorMessage(err: unknown): string {
+  if (err instanceof DOMException) {
+    if (err.name === 'NotAllowedError') {
+      return '麦克风权限被拒绝，请点击右上角"在浏览器打开"后重试';
+    }
+    if (err.name === 'NotFoundError') {
+      return '未找到麦克风设备';
+    }
+    if (err.name === 'NotReadableError') {
+      return '麦克风被其他应用占用，请关闭后重试';
+    }
+  }
+  return '无法启动录音，请检查麦克风权限';
+}
+
+/**
+ * 列出可用的麦克风（需要先获得权限，否则没有设备名称）
+ */
+export async function listMicrophones(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) {
+    return [];
+  }
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'audioinput');
+}
+
+/**
+ * 在一段时间内采样音量，返回每次采样的 dBFS
+ */
+export function sampleLevels(analyser: AnalyserNode, durationMs: number): Promise<number[]> {
+  const buffer = new Float32Array(analyser.fftSize);
+  const levels: number[] = [];
+
+  return new Promise((resolve) => {
+    const timer = setInterval(() => {
+      analyser.getFloatTimeDomainData(buffer);
+      let sum = 0;
+      for (let i = 0; i < buffer.length; i++) {
+        sum += buffer[i] * buffer[i];
+      }
+      const rms = Math.sqrt(sum / buffer.length);
+      levels.push(rms > 0 ? 20 * Math.log10(rms) : -100);
+    }, SAMPLE_INTERVAL);
+
+    setTimeout(() => {
+      clearInterval(timer);
+      resolve(levels);
+    }, durationMs);
+  });
+}
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return -100;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+/**
+ * 根据底噪（中位数）和试音（90分位，取说话时的音量）给出结论
+ */
+export function evaluateMicCheck(noiseLevels: number[], voiceLevels: number[]): MicCheckResult {
+  const noiseDb = percentile(noiseLevels, 0.5);
+  const voiceDb = percentile(voiceLevels, 0.9);
+  const warnings: string[] = [];
+
+  if (noiseDb > NOISE_WARN_DB) {
+    warnings.push('周围环境有点吵，建议换个安静的地方');
+  }
+  if (voiceDb < VOICE_QUIET_DB) {
+    warnings.push('声音有点小，请靠近麦克风或大声一些');
+  } else if (voiceDb > VOICE_LOUD_DB) {
+    warnings.push('声音过大可能失真，请离麦克风远一点');
+  } else if (voiceDb - noiseDb < MIN_SNR_DB) {
+    warnings.push('人声和背景噪音区分不明显，录音可能不够清晰');
+  }
+
+  return {
+    noiseDb: Math.round(noiseDb),
+    voiceDb: Math.round(voiceDb),
+    verdict: warnings.length === 0 ? 'pass' : 'warn',
+    warnings,
+  };
+}
+
+export default {
+  getPreferredMicId,
+  setPreferredMicId,
+  getAudioConstraints,
+  getMicErrorMessage,
+  listMicrophones,
+  sampleLevels,
+  evaluateMicCheck,
+};
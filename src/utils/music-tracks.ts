@@ -0,0 +1,132 @@
+/**
+ * 内置背景音乐
+ * 用 OfflineAudioContext 现场合成可循环的轻音乐，不需要额外下载音频文件
+ */
+
+export interface BundledTrack {
+  id: string;
+  name: string;
+}
+
+interface TrackRecipe {
+  chords: number[][]; // 每小节的和弦（MIDI 音高）
+  pad: OscillatorType | null; // 铺底和弦音色，null 表示不铺底
+  pluck: number[] | null; // 每小节内循环的分解和弦音序（和弦内下标），null 表示没有
+  pluckOctave: number;
+}
+
+export const BUNDLED_TRACKS: BundledTrack[] = [
+  { id: 'warm-pad', name: '温暖' },
+  { id: 'music-box', name: '八音盒' },
+  { id: 'festive', name: '喜庆' },
+];
+
+const BAR_SECONDS = 4;
+const BARS = 4; // 循环长度 16 秒
+const LOOP_SECONDS = BAR_SECONDS * BARS;
+
+const RECIPES: Record<string, TrackRecipe> = {
+  // C - Am - F - G
+  'warm-pad': {
+    chords: [[48, 55, 60, 64], [45, 52, 57, 60], [41, 48, 53, 57], [43, 50, 55, 59]],
+    pad: 'triangle',
+    pluck: null,
+    pluckOctave: 0,
+  },
+  'music-box': {
+    chords: [[48, 55, 60, 64], [45, 52, 57, 60], [41, 48, 53, 57], [43, 50, 55, 59]],
+    pad: 'sine',
+    pluck: [0, 1, 2, 3, 2, 1, 2, 3],
+    pluckOctave: 2,
+  },
+  // 五声音阶：C - G - Am - C
+  'festive': {
+    chords: [[48, 55, 60, 62, 64, 67], [43, 50, 55, 57, 59, 62], [45, 52, 57, 60, 62, 64], [48, 55, 60, 62, 64, 67]],
+    pad: null,
+    pluck: [2, 3, 4, 5, 4, 3, 4, 2],
+    pluckOctave: 1,
+  },
+};
+
+const midiToFrequency = (midi: number) => 440 * Math.pow(2, (midi - 69) / 12);
+
+function playPadChord(context: OfflineAudioContext, output: AudioNode, type: OscillatorType, notes: number[], start: number) {
+  notes.forEach((note) => {
+    const oscillator = context.createOscillator();
+    oscillator.type = type;
+    oscillator.frequency.value = midiToFrequency(note);
+
+    // 慢起慢收，在小节内收尾，循环接缝处不会有爆音
+    const envelope = context.createGain();
+    envelope.gain.setValueAtTime(0, start);
+    envelope.gain.linearRampToValueAtTime(0.12, start + 1);
+    envelope.gain.setValueAtTime(0.12, start + BAR_SECONDS - 1);
+    envelope.gain.linearRampToValueAtTime(0, start + BAR_SECONDS);
+
+    oscillator.connect(envelope);
+    envelope.connect(output);
+    oscillator.start(start);
+    oscillator.stop(start + BAR_SECONDS);
+  });
+}
+
+function playPluck(context: OfflineAudioContext, output: AudioNode, note: number, start: number) {
+  const oscillator = context.createOscillator();
+  oscillator.type = 'sine';
+  oscillator.frequency.value = midiToFrequency(note);
+
+  const envelope = context.createGain();
+  envelope.gain.setValueAtTime(0, start);
+  envelope.gain.linearRampToValueAtTime(0.15, start + 0.01);
+  envelope.gain.exponentialRampToValueAtTime(0.001, start + 0.8);
+
+  oscillator.connect(envelope);
+  envelope.connect(output);
+  oscillator.start(start);
+  oscillator.stop(start + 0.8);
+}
+
+const trackCache = new Map<string, Promise<AudioBuffer>>();
+
+/**
+ * 合成一段可循环的内置音乐
+ */
+export function renderBundledTrack(trackId: string, sampleRate: number): Promise<AudioBuffer> {
+  const cacheKey = `${trackId}@${sampleRate}`;
+  let cached = trackCache.get(cacheKey);
+  if (cached) return cached;
+
+  const recipe = RECIPES[trackId];
+  if (!recipe) {
+    return Promise.reject(new Error(`未知的背景音乐: ${trackId}`));
+  }
+
+  const context = new OfflineAudioContext(1, Math.round(LOOP_SECONDS * sampleRate), sampleRate);
+  // 低通滤波让音色柔和，不和人声抢频段
+  const filter = context.createBiquadFilter();
+  filter.type = 'lowpass';
+  filter.frequency.value = 1800;
+  filter.connect(context.destination);
+
+  recipe.chords.forEach((chord, bar) => {
+    const barStart = bar * BAR_SECONDS;
+    if (recipe.pad) {
+      playPadChord(context, filter, recipe.pad, chord, barStart);
+    }
+    if (recipe.pluck) {
+      const step = BAR_SECONDS / recipe.pluck.length;
+      recipe.pluck.forEach((noteIndex, i) => {
+        playPluck(context, filter, chord[noteIndex % chord.length] + 12 * recipe.pluckOctave, barStart + i * step);
+      });
+    }
+  });
+
+  cached = context.startRendering();
+  trackCache.set(cacheKey, cached);
+  return cached;
+}
+
+export default {
+  BUNDLED_TRACKS,
+  renderBundledTrack,
+};
@@ -0,0 +1,276 @@
+/**
+ * 录音引擎
+ * 不同浏览器可靠的录音方式不一样：iOS Safari 用原生 MediaRecorder（AAC），
+ * 桌面和安卓 Chrome 用 AudioWorklet 录 PCM，微信 X5 等老内核退回 RecordRTC
+ * useRecorder 只依赖 RecorderEngine 接口，运行时按能力检测选择引擎
+ */
+
+import RecordRTC from 'recordrtc';
+import { encodeWav, PROCESS_SAMPLE_RATE } from './audio-buffer';
+import pcmRecorderWorkletUrl from '../workers/pcm-recorder.worklet.ts?worker&url';
+import type { PcmRecorderCommand, PcmRecorderResult } from '../workers/pcm-recorder.worklet';
+
+export type RecorderEngineType = 'media-recorder' | 'audio-worklet' | 'recordrtc' | 'fake';
+
+export interface RecorderEngineInput {
+  stream: MediaStream;
+  context: AudioContext; // 录音期间使用的 AudioContext，采样率以它为准
+  source: MediaStreamAudioSourceNode;
+}
+
+export interface RecorderEngine {
+  readonly type: RecorderEngineType;
+  start(input: RecorderEngineInput): Promise<void>;
+  pause(): void;
+  resume(): void;
+  stop(): Promise<Blob>;
+}
+
+export interface EngineCapabilities {
+  mediaRecorderMimeType: string | null; // 支持的压缩格式，不支持 MediaRecorder 时为 null
+  audioWorklet: boolean;
+  isIOS: boolean;
+  isWeChat: boolean;
+  isX5: boolean; // 安卓微信/QQ 的 X5、XWeb 内核
+}
+
+// 按优先级排列：AAC 兼容性最好（iOS 原生支持），其次 Opus
+const MEDIA_RECORDER_MIME_TYPES = [
+  'audio/mp4;codecs=mp4a.40.2',
+  'audio/mp4',
+  'audio/webm;codecs=opus',
+  'audio/ogg;codecs=opus',
+];
+const MEDIA_RECORDER_BITRATE = 96000;
+const MEDIA_RECORDER_TIMESLICE = 1000; // 每秒取一次数据，异常中断时也不会全部丢失
+
+/**
+ * 原生 MediaRecorder，直接产出压缩音频
+ */
+export function createMediaRecorderEngine(mimeType: string): RecorderEngine {
+  let recorder: MediaRecorder | null = null;
+  let chunks: Blob[] = [];
+
+  return {
+    type: 'media-recorder',
+    async start({ stream }) {
+      chunks = [];
+      recorder = new MediaRecorder(stream, {
+        mimeType,
+        audioBitsPerSecond: MEDIA_RECORDER_BITRATE,
+      });
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.start(MEDIA_RECORDER_TIMESLICE);
+    },
+    pause() {
+      if (recorder?.state === 'recording') recorder.pause();
+    },
+    resume() {
+      if (recorder?.state === 'paused') recorder.resume();
+    },
+    stop() {
+      const current = recorder;
+      if (!current || current.state === 'inactive') {
+        return Promise.reject(new Error('录音未开始'));
+      }
+      return new Promise<Blob>((resolve, reject) => {
+        current.onstop = () => resolve(new Blob(chunks, { type: current.mimeType || mimeType }));
+        current.onerror = () => reject(new Error('录音出错'));
+        current.stop();
+      });
+    },
+  };
+}
+
+/**
+ * AudioWorklet 录制原始 PCM，停止后写成 WAV，保留完整音质供剪辑和效果处理
+ */
+export function createAudioWorkletEngine(): RecorderEngine {
+  let node: AudioWorkletNode | null = null;
+  let sink: GainNode | null = null;
+  let sampleRate = 0;
+
+  const send = (command: PcmRecorderCommand) => node?.port.postMessage(command);
+
+  return {
+    type: 'audio-worklet',
+    async start({ context, source }) {
+      await context.audioWorklet.addModule(pcmRecorderWorkletUrl);
+      sampleRate = context.sampleRate;
+      node = new AudioWorkletNode(context, 'pcm-recorder', {
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+        channelCount: 1,
+        channelCountMode: 'explicit',
+      });
+      // 接到静音的输出上，保证节点持续被音频线程调度
+      sink = context.createGain();
+      sink.gain.value = 0;
+      source.connect(node);
+      node.connect(sink);
+      sink.connect(context.destination);
+    },
+    pause() {
+      send('pause');
+    },
+    resume() {
+      send('resume');
+    },
+    stop() {
+      const current = node;
+      if (!current) {
+        return Promise.reject(new Error('录音未开始'));
+      }
+      return new Promise<Blob>((resolve) => {
+        current.port.onmessage = (event: MessageEvent<PcmRecorderResult>) => {
+          current.disconnect();
+          sink?.disconnect();
+          node = null;
+          sink = null;
+          resolve(encodeWav(event.data.samples, sampleRate));
+        };
+        send('stop');
+      });
+    },
+  };
+}
+
+/**
+ * RecordRTC（ScriptProcessor）录 WAV，兼容性最广，作为兜底
+ */
+export function createRecordRTCEngine(): RecorderEngine {
+  let recorder: RecordRTC | null = null;
+
+  return {
+    type: 'recordrtc',
+    async start({ stream, context }) {
+      recorder = new RecordRTC(stream, {
+        type: 'audio',
+        mimeType: 'audio/webm', // 简化，去掉 pcm 避免兼容性问题
+        recorderType: RecordRTC.StereoAudioRecorder,
+        numberOfAudioChannels: 1,
+        desiredSampRate: context.sampleRate, // 使用设备原生采样率，避免额外重采样
+        disableLogs: true,
+      });
+      recorder.startRecording();
+    },
+    pause() {
+      recorder?.pauseRecording();
+    },
+    resume() {
+      recorder?.resumeRecording();
+    },
+    stop() {
+      const current = recorder;
+      if (!current) {
+        return Promise.reject(new Error('录音未开始'));
+      }
+      return new Promise<Blob>((resolve) => {
+        current.stopRecording(() => resolve(current.getBlob()));
+      });
+    },
+  };
+}
+
+/**
+ * 测试用引擎：不读取麦克风，按实际录制时长（不含暂停）生成 440Hz 正弦波 WAV
+ */
+export function createFakeEngine(sampleRate: number = PROCESS_SAMPLE_RATE): RecorderEngine {
+  let startedAt = 0;
+  let elapsed = 0;
+  let paused = false;
+
+  const pause = () => {
+    if (paused) return;
+    elapsed += performance.now() - startedAt;
+    paused = true;
+  };
+
+  return {
+    type: 'fake',
+    async start() {
+      startedAt = performance.now();
+      elapsed = 0;
+      paused = false;
+    },
+    pause,
+    resume() {
+      if (!paused) return;
+      startedAt = performance.now();
+      paused = false;
+    },
+    async stop() {
+      pause();
+      const samples = new Float32Array(Math.round((elapsed / 1000) * sampleRate));
+      for (let i = 0; i < samples.length; i++) {
+        samples[i] = 0.5 * Math.sin((2 * Math.PI * 440 * i) / sampleRate);
+      }
+      return encodeWav(samples, sampleRate);
+    },
+  };
+}
+
+/**
+ * 检测当前浏览器的录音能力
+ */
+export function probeCapabilities(): EngineCapabilities {
+  const ua = navigator.userAgent;
+  const isIOS = /iPad|iPhone|iPod/.test(ua) || (navigator.platform === 'MacIntel' && navigator.maxTouchPoints > 1);
+  const isWeChat = /MicroMessenger/i.test(ua);
+  const isX5 = /Android/i.test(ua) && (/TBS\/|XWEB\//i.test(ua) || /MQQBrowser/i.test(ua) || isWeChat);
+
+  const mediaRecorderMimeType = typeof MediaRecorder !== 'undefined' && typeof MediaRecorder.isTypeSupported === 'function'
+    ? MEDIA_RECORDER_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) || null
+    : null;
+
+  const audioWorklet = typeof AudioWorkletNode !== 'undefined'
+    && typeof window.AudioContext !== 'undefined'
+    && 'audioWorklet' in AudioContext.prototype;
+
+  return { mediaRecorderMimeType, audioWorklet, isIOS, isWeChat, isX5 };
+}
+
+/**
+ * 选择录音引擎，可用 VITE_RECORDER_ENGINE 强制指定（如联调时用 fake）
+ */
+export function chooseEngineType(capabilities: EngineCapabilities = probeCapabilities()): RecorderEngineType {
+  const forced = import.meta.env.VITE_RECORDER_ENGINE as RecorderEngineType | undefined;
+  if (forced && ['media-recorder', 'audio-worklet', 'recordrtc', 'fake'].includes(forced)) {
+    return forced;
+  }
+
+  // X5 内核的 MediaRecorder 和 AudioWorklet 都不可靠
+  if (capabilities.isX5) return 'recordrtc';
+  // iOS 上 ScriptProcessor 切后台容易断流，原生 AAC 最稳定
+  if (capabilities.isIOS && capabilities.mediaRecorderMimeType?.startsWith('audio/mp4')) return 'media-recorder';
+  if (capabilities.audioWorklet) return 'audio-worklet';
+  if (capabilities.mediaRecorderMimeType) return 'media-recorder';
+  return 'recordrtc';
+}
+
+export function createRecorderEngine(type: RecorderEngineType = chooseEngineType()): RecorderEngine {
+  switch (type) {
+    case 'media-recorder': {
+      const mimeType = probeCapabilities().mediaRecorderMimeType;
+      return mimeType ? createMediaRecorderEngine(mimeType) : createRecordRTCEngine();
+    }
+    case 'audio-worklet':
+      return createAudioWorkletEngine();
+    case 'fake':
+      return createFakeEngine();
+    default:
+      return createRecordRTCEngine();
+  }
+}
+
+export default {
+  createMediaRecorderEngine,
+  createAudioWorkletEngine,
+  createRecordRTCEngine,
+  createFakeEngine,
+  probeCapabilities,
+  chooseEngineType,
+  createRecorderEngine,
+};
@@ -0,0 +1,94 @@
+/**
+ * 录音提词稿
+ * 每段的提词稿草稿保存在 localStorage，可选择随音频一起上传为文字稿
+ */
+
+import type { UploadFields } from './cos-upload';
+
+const DRAFT_KEY_PREFIX = 'voice-capsule:scripts:';
+
+export const CHARS_PER_SECOND = 4; // 中文朗读语速约每秒4字
+
+export interface ScriptDraft {
+  text: string;
+  uploadTranscript: boolean; // 是否随音频上传为文字稿
+}
+
+// 默认模板各段的参考稿
+const SUGGESTIONS: Record<string, string[]> = {
+  '想对TA说的话': [
+    '嗨，是我。有些话平时不好意思说出口，今天想借这个声音胶囊告诉你：谢谢你一直在我身边。',
+    '你好呀，这是一份特别的礼物。希望你每次听到我的声音，都能想起我们在一起的时光。',
+  ],
+  '你们的故事': [
+    '还记得我们第一次见面吗？那天的场景我到现在都记得很清楚。',
+    '这些年我们一起经历了很多，开心的、难过的，每一件我都好好收藏着。',
+  ],
+  '祝福与期待': [
+    '愿你往后的日子平安喜乐，所求皆所愿。',
+    '希望明年的这个时候，我们还能一起听这段录音，笑着说起今天。',
+  ],
+};
+
+/**
+ * 根据段落提示语生成参考稿
+ */
+export function getSuggestedScripts(prompt: string): string[] {
+  return SUGGESTIONS[prompt] || [
+    `关于"${prompt}"，我想说……`,
+    `今天想和你聊聊"${prompt}"。`,
+  ];
+}
+
+function getDraftKey(taskId: string): string {
+  return `${DRAFT_KEY_PREFIX}${taskId}`;
+}
+
+/**
+ * 读取各段草稿，下标对应段序号
+ */
+export function loadScriptDrafts(taskId: string): Record<number, ScriptDraft> {
+  try {
+    const raw = localStorage.getItem(getDraftKey(taskId));
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveScriptDrafts(taskId: string, drafts: Record<number, ScriptDraft>) {
+  try {
+    localStorage.setItem(getDraftKey(taskId), JSON.stringify(drafts));
+  } catch (error) {
+    console.warn('保存提词稿失败:', error);
+  }
+}
+
+export function clearScriptDrafts(taskId: string) {
+  localStorage.removeItem(getDraftKey(taskId));
+}
+
+/**
+ * 按语速估算念完提词稿所需的秒数，不超过本段时长上限
+ */
+export function getScriptDuration(text: string, maxDuration: number): number {
+  const length = text.replace(/\s/g, '').length;
+  return Math.max(1, Math.min(maxDuration, length / CHARS_PER_SECOND));
+}
+
+/**
+ * 选择了上传文字稿时，转换为随音频提交的 transcript 表单字段
+ */
+export function transcriptToFields(draft?: ScriptDraft): UploadFields {
+  const transcript = draft?.uploadTranscript ? draft.text.trim() : '';
+  return transcript ? { transcript } : {};
+}
+
+export default {
+  getSuggestedScripts,
+  loadScriptDrafts,
+  saveScriptDrafts,
+  clearScriptDrafts,
+  getScriptDuration,
+  transcriptToFields,
+};
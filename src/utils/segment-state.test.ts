@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createSegments, MAX_RETRIES, Segment, SegmentAction, segmentReducer } from './segment-state';
+import { restoreSegmentStatus, StoredSegment } from './session-store';
+
+const blob = new Blob([new Uint8Array(10)], { type: 'audio/mpeg' });
+
+function apply(segments: Segment[], ...actions: SegmentAction[]): Segment[] {
+  return actions.reduce(segmentReducer, segments);
+}
+
+// 第一段录完（takeId 为 1）
+function recordedSegments(): Segment[] {
+  return apply(
+    createSegments(2),
+    { type: 'START_RECORDING', index: 0 },
+    { type: 'RECORDING_STOPPED', index: 0 },
+    { type: 'RECORDED', index: 0, blob, url: 'blob:0', takeId: 1 }
+  );
+}
+
+describe('segmentReducer', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('按 pending → recording → processing → recorded → uploading → uploaded 推进', () => {
+    const segments = apply(
+      recordedSegments(),
+      { type: 'UPLOAD_STARTED', index: 0 },
+      { type: 'UPLOAD_SUCCEEDED', index: 0, uploadUrl: 'https://cos.example/0.mp3', takeId: 1 }
+    );
+
+    expect(segments[0]).toMatchObject({ status: 'uploaded', uploadUrl: 'https://cos.example/0.mp3', takeId: 1 });
+    expect(segments[1].status).toBe('pending');
+  });
+
+  it('忽略不允许的状态跳转，返回原数组', () => {
+    const pending = createSegments(1);
+    expect(segmentReducer(pending, { type: 'UPLOAD_STARTED', index: 0 })).toBe(pending);
+    expect(segmentReducer(pending, { type: 'RECORDED', index: 0, blob, url: 'blob:0', takeId: 1 })).toBe(pending);
+
+    const uploaded = apply(recordedSegments(), { type: 'UPLOAD_STARTED', index: 0 }, { type: 'UPLOAD_SUCCEEDED', index: 0, uploadUrl: null, takeId: 1 });
+    expect(segmentReducer(uploaded, { type: 'START_RECORDING', index: 0 })).toBe(uploaded);
+    expect(segmentReducer(uploaded, { type: 'UPLOAD_FAILED', index: 0, error: '网络错误' })).toBe(uploaded);
+  });
+
+  it('不存在的段直接忽略', () => {
+    const segments = createSegments(1);
+    expect(segmentReducer(segments, { type: 'START_RECORDING', index: 5 })).toBe(segments);
+  });
+
+  it('上传失败累计 uploadFailures，到 MAX_RETRIES 为止都保留录音', () => {
+    let segments = recordedSegments();
+    for (let i = 0; i < MAX_RETRIES; i++) {
+      segments = apply(segments, { type: 'UPLOAD_STARTED', index: 0 }, { type: 'UPLOAD_FAILED', index: 0, error: '网络错误' });
+    }
+
+    expect(segments[0]).toMatchObject({ status: 'error', uploadFailures: MAX_RETRIES, errorMsg: '网络错误', blob });
+  });
+
+  it('重录时 retryCount 加一，清空录音和上传失败计数', () => {
+    const segments = apply(
+      recordedSegments(),
+      { type: 'UPLOAD_STARTED', index: 0 },
+      { type: 'UPLOAD_FAILED', index: 0, error: '网络错误' },
+      { type: 'RERECORD', index: 0 }
+    );
+
+    expect(segments[0]).toMatchObject({
+      status: 'pending',
+      blob: null,
+      url: null,
+      takeId: null,
+      retryCount: 1,
+      uploadFailures: 0,
+    });
+  });
+
+  it('新录音的上传失败计数从零开始', () => {
+    const segments = apply(
+      recordedSegments(),
+      { type: 'UPLOAD_STARTED', index: 0 },
+      { type: 'UPLOAD_FAILED', index: 0, error: '网络错误' },
+      { type: 'RERECORD', index: 0 },
+      { type: 'START_RECORDING', index: 0 },
+      { type: 'RECORDING_STOPPED', index: 0 },
+      { type: 'RECORDED', index: 0, blob, url: 'blob:1', takeId: 2 }
+    );
+
+    expect(segments[0]).toMatchObject({ status: 'recorded', uploadFailures: 0, retryCount: 1, takeId: 2 });
+  });
+
+  it('丢弃不属于当前录音的上传结果', () => {
+    const segments = apply(recordedSegments(), { type: 'UPLOAD_STARTED', index: 0 }, { type: 'UPLOAD_FAILED', index: 0, error: '网络错误' });
+
+    expect(segmentReducer(segments, { type: 'UPLOAD_SUCCEEDED', index: 0, uploadUrl: 'old.mp3', takeId: 0 })).toBe(segments);
+    expect(segmentReducer(segments, { type: 'UPLOAD_SUCCEEDED', index: 0, uploadUrl: 'old.mp3', takeId: null })).toBe(segments);
+    expect(segmentReducer(segments, { type: 'UPLOAD_SUCCEEDED', index: 0, uploadUrl: 'new.mp3', takeId: 1 })[0].status).toBe('uploaded');
+  });
+});
+
+describe('restoreSegmentStatus', () => {
+  // 旧版本保存的段没有 uploadFailures 和 takeId
+  function legacySegment(fields: Partial<StoredSegment>): StoredSegment {
+    const { url: _url, uploadFailures: _failures, takeId: _takeId, ...segment } = createSegments(1)[0];
+    return { ...segment, ...fields } as StoredSegment;
+  }
+
+  it('旧会话的 takeId 恢复为 null，仍能接受离线队列里 takeId 为 null 的结果', () => {
+    const restored = restoreSegmentStatus(legacySegment({ status: 'error', blob }));
+    expect(restored).toMatchObject({ takeId: null, uploadFailures: 0 });
+
+    const segments = segmentReducer([{ ...restored, url: null }], { type: 'UPLOAD_SUCCEEDED', index: 0, uploadUrl: 'queued.mp3', takeId: null });
+    expect(segments[0]).toMatchObject({ status: 'uploaded', uploadUrl: 'queued.mp3' });
+  });
+
+  it('上传中被打断的段恢复为上传失败，录制中被打断的段回到可录制', () => {
+    expect(restoreSegmentStatus(legacySegment({ status: 'uploading', blob })).status).toBe('error');
+    expect(restoreSegmentStatus(legacySegment({ status: 'processing', blob })).status).toBe('recorded');
+    expect(restoreSegmentStatus(legacySegment({ status: 'recording', blob: null })).status).toBe('pending');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * 录音段生命周期
+ * 所有状态变化都经过 segmentReducer，非法跳转直接忽略，重录和上传失败的计数也只在这里维护
+ * pending → recording → processing → recorded → uploading → uploaded
+ * 录制或上传失败进入 error；已录制的段可以重录回到 pending
+ */
+
+import type { AudioQuality } from './audio-quality';
+
+export type SegmentStatus = 'pending' | 'recording' | 'processing' | 'recorded' | 'uploading' | 'uploaded' | 'error';
+
+export interface Segment {
+  id: number;
+  status: SegmentStatus;
+  blob: Blob | null; // 待上传或上传失败的录音
+  url: string | null; // 试听地址：本地 blob URL，或恢复会话后的上传地址
+  uploadUrl: string | null;
+  retryCount: number; // 已重录次数
+  uploadFailures: number; // 本次录音上传失败的次数
+  takeId: number | null; // 本次录音的编号，离线补传结果据此确认属于当前录音
+  errorMsg?: string;
+  quality?: AudioQuality; // 录音质量分析结果，上传时一并提交
+}
+
+/**
+ * 播放只需要上传地址和响度
+ */
+export interface PlayableSegment {
+  id: number;
+  uploadUrl: string | null;
+  loudness?: number | null; // 积分响度（LUFS）
+}
+
+export type SegmentAction =
+  | { type: 'START_RECORDING'; index: number }
+  | { type: 'RECORDING_STOPPED'; index: number }
+  | { type: 'RECORDING_FAILED'; index: number; error: string }
+  | { type: 'RECORDED'; index: number; blob: Blob; url: string; takeId: number; quality?: AudioQuality }
+  | { type: 'PROCESSING'; index: number }
+  | { type: 'UPLOAD_STARTED'; index: number }
+  | { type: 'UPLOAD_SUCCEEDED'; index: number; uploadUrl: string | null; takeId: number | null }
+  | { type: 'UPLOAD_FAILED'; index: number; error: string }
+  | { type: 'RERECORD'; index: number };
+
+export const MAX_RETRIES = 3; // 每段最多重录3次、重试上传3次
+
+// 各动作允许的起始状态
+const ALLOWED_FROM: Record<SegmentAction['type'], SegmentStatus[]> = {
+  START_RECORDING: ['pending', 'error'],
+  RECORDING_STOPPED: ['recording'],
+  RECORDING_FAILED: ['recording', 'processing'],
+  RECORDED: ['processing'],
+  PROCESSING: ['recorded'],
+  UPLOAD_STARTED: ['recorded', 'error'],
+  // 离线队列补传成功时段可能处于 recorded 或 error；是否属于当前录音另按 takeId 判断
+  UPLOAD_SUCCEEDED: ['uploading', 'recorded', 'error'],
+  UPLOAD_FAILED: ['uploading'],
+  RERECORD: ['recorded', 'uploaded', 'error'],
+};
+
+export function createSegments(count: number): Segment[] {
+  return Array.from({ length: count }, (_, idx) => ({
+    id: idx,
+    status: 'pending' as const,
+    blob: null,
+    url: null,
+    uploadUrl: null,
+    retryCount: 0,
+    uploadFailures: 0,
+    takeId: null,
+  }));
+}
+
+/**
+ * 判断动作在当前状态下是否合法
+ */
+export function canApply(segment: Segment | undefined, type: SegmentAction['type']): boolean {
+  return !!segment && ALLOWED_FROM[type].includes(segment.status);
+}
+
+// 上传结果必须属于当前这次录音，重录后旧录音的补传结果不能把新录音标记为已上传
+function isStale(segment: Segment, action: SegmentAction): boolean {
+  return action.type === 'UPLOAD_SUCCEEDED' && action.takeId !== segment.takeId;
+}
+
+function applyAction(segment: Segment, action: SegmentAction): Segment {
+  switch (action.type) {
+    case 'START_RECORDING':
+      return { ...segment, status: 'recording', errorMsg: undefined };
+    case 'RECORDING_STOPPED':
+      return { ...segment, status: 'processing' };
+    case 'RECORDING_FAILED':
+      return { ...segment, status: 'error', blob: null, url: null, errorMsg: action.error };
+    case 'RECORDED':
+      return {
+        ...segment,
+        status: 'recorded',
+        blob: action.blob,
+        url: action.url,
+        takeId: action.takeId,
+        quality: action.quality,
+        uploadFailures: 0,
+        errorMsg: undefined,
+      };
+    case 'PROCESSING':
+      return { ...segment, status: 'processing' };
+    case 'UPLOAD_STARTED':
+      return { ...segment, status: 'uploading', errorMsg: undefined };
+    case 'UPLOAD_SUCCEEDED':
+      return { ...segment, status: 'uploaded', uploadUrl: action.uploadUrl, errorMsg: undefined };
+    case 'UPLOAD_FAILED':
+      return { ...segment, status: 'error', uploadFailures: segment.uploadFailures + 1, errorMsg: action.error };
+    case 'RERECORD':
+      return {
+        ...segment,
+        status: 'pending',
+        blob: null,
+        url: null,
+        uploadUrl: null,
+        quality: undefined,
+        takeId: null,
+        retryCount: segment.retryCount + 1,
+        uploadFailures: 0,
+        errorMsg: undefined,
+      };
+  }
+}
+
+export function segmentReducer(segments: Segment[], action: SegmentAction): Segment[] {
+  const segment = segments[action.index];
+  if (!canApply(segment, action.type)) {
+    console.warn(`⚠️ 忽略非法的段状态变化: 第${action.index + 1}段 ${segment?.status} → ${action.type}`);
+    return segments;
+  }
+  if (isStale(segment, action)) {
+    console.warn(`⚠️ 忽略旧录音的上传结果: 第${action.index + 1}段`);
+    return segments;
+  }
+  const next = [...segments];
+  next[action.index] = applyAction(segment, action);
+  return next;
+}
+
+export default {
+  createSegments,
+  canApply,
+  segmentReducer,
+};
@@ -0,0 +1,128 @@
+/**
+ * 录制会话本地持久化
+ * 微信切后台被回收或用户刷新页面后，从 IndexedDB 恢复订单、当前段和各段录音
+ */
+
+import type { OrderInfo } from '../components/VerifyForm';
+import type { Segment } from './segment-state';
+import { openDB, SESSION_STORE } from './db';
+
+export type SessionView = 'verify' | 'record' | 'complete';
+
+// 试听地址是页面内的 blob URL，不保存；上传成功后不再保留 blob
+export type StoredSegment = Omit<Segment, 'url'>;
+
+export interface RecordingSession {
+  taskId: string;
+  orderInfo: OrderInfo | null;
+  view: SessionView;
+  currentSegment: number;
+  segments: StoredSegment[];
+  updatedAt: number;
+}
+
+const SESSION_KEY = 'current';
+const SESSION_TTL = 7 * 24 * 60 * 60 * 1000; // 会话保留7天
+
+/**
+ * 读取上次未完成的会话
+ */
+export async function loadSession(): Promise<RecordingSession | null> {
+  try {
+    const db = await openDB();
+    const session = await new Promise<RecordingSession | undefined>((resolve, reject) => {
+      const request = db.transaction(SESSION_STORE, 'readonly').objectStore(SESSION_STORE).get(SESSION_KEY);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    db.close();
+
+    if (!session || !session.taskId) return null;
+    if (Date.now() - session.updatedAt > SESSION_TTL) {
+      await clearSession();
+      return null;
+    }
+    return session;
+  } catch (error) {
+    console.error('读取本地会话失败:', error);
+    return null;
+  }
+}
+
+/**
+ * 合并保存会话（读取与写入在同一事务中，避免 App 与 Recorder 同时保存时互相覆盖）
+ */
+export async function saveSession(patch: Partial<Omit<RecordingSession, 'updatedAt'>>): Promise<void> {
+  try {
+    const db = await openDB();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(SESSION_STORE, 'readwrite');
+      const store = tx.objectStore(SESSION_STORE);
+      const request = store.get(SESSION_KEY);
+      request.onsuccess = () => {
+        const prev: RecordingSession = request.result || {
+          taskId: '',
+          orderInfo: null,
+          view: 'verify',
+          currentSegment: 0,
+          segments: [],
+          updatedAt: 0,
+        };
+        store.put({ ...prev, ...patch, updatedAt: Date.now() }, SESSION_KEY);
+      };
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    db.close();
+  } catch (error) {
+    console.error('保存本地会话失败:', error);
+  }
+}
+
+/**
+ * 清除会话（重新开始或制作完成后）
+ */
+export async function clearSession(): Promise<void> {
+  try {
+    const db = await openDB();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(SESSION_STORE, 'readwrite');
+      tx.objectStore(SESSION_STORE).delete(SESSION_KEY);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    db.close();
+  } catch (error) {
+    console.error('清除本地会话失败:', error);
+  }
+}
+
+/**
+ * 恢复时修正中断的状态：
+ * 录制中被打断的段回到可录制状态；剪辑处理中被打断的段回到已录制，重新试听；
+ * 上传中被打断的段已经确认过，标记为上传失败，恢复后直接重新上传
+ */
+export function restoreSegmentStatus(stored: StoredSegment): StoredSegment {
+  // 旧版本保存的会话没有上传失败计数和录音编号；编号统一为 null，与离线队列结果的写法一致
+  const segment = { ...stored, uploadFailures: stored.uploadFailures ?? 0, takeId: stored.takeId ?? null };
+  switch (segment.status) {
+    case 'uploading':
+      return segment.blob
+        ? { ...segment, status: 'error', errorMsg: '上传中断，正在重新上传' }
+        : { ...segment, status: 'pending', errorMsg: undefined };
+    case 'recording':
+    case 'processing':
+      return segment.blob
+        ? { ...segment, status: 'recorded' }
+        : { ...segment, status: 'pending', errorMsg: undefined };
+    default:
+      return segment;
+  }
+}
+
+export default {
+  loadSession,
+  saveSession,
+  clearSession,
+  restoreSegmentStatus,
+};
@@ -0,0 +1,179 @@
+/**
+ * 离线上传队列
+ * 上传失败的音频段存入 IndexedDB，由 Service Worker（src/sw.ts）在网络恢复后（'upload-audio' 后台同步）补传
+ */
+
+import { openDB, UPLOAD_QUEUE_STORE } from './db';
+import { getAudioExtension } from './audio-encoder';
+import { UploadFields } from './cos-upload';
+import { apiUrl } from './api-client';
+
+export interface QueuedUpload {
+  id: string; // `${taskId}_${segmentIndex}`，同一段只保留最新一次录音
+  taskId: string;
+  segmentIndex: number;
+  takeId: number | null; // 入队时的录音编号，补传结果只对同一次录音生效
+  blob: Blob | null; // 补传成功后清空
+  fileName: string;
+  fields: UploadFields; // 附加表单字段（如录音质量指标）
+  endpoint: string; // Service Worker 读不到 import.meta.env，入队时写入完整地址
+  status: 'pending' | 'uploaded';
+  url?: string;
+  key?: string;
+  attempts: number;
+  createdAt: number;
+}
+
+export interface QueuedUploadResult {
+  taskId: string;
+  segmentIndex: number;
+  takeId: number | null;
+  url?: string;
+  key?: string;
+}
+
+interface SyncRegistration extends ServiceWorkerRegistration {
+  sync?: { register: (tag: string) => Promise<void> };
+}
+
+export const SYNC_TAG = 'upload-audio';
+export const UPLOADED_MESSAGE = 'upload-audio:uploaded';
+
+const queueId = (taskId: string, segmentIndex: number) => `${taskId}_${segmentIndex}`;
+
+/**
+ * 后端明确拒绝（4xx，超时和限流除外）的上传重传也不会成功，不进入离线队列
+ */
+export function isPermanentFailure(status?: number): boolean {
+  return status !== undefined && status >= 400 && status < 500 && status !== 408 && status !== 429;
+}
+
+/**
+ * 请求 Service Worker 处理队列：支持后台同步时注册 sync，否则（如 iOS Safari）直接发消息
+ */
+export async function flushUploadQueue(): Promise<void> {
+  if (!('serviceWorker' in navigator)) return;
+
+  const registration = (await navigator.serviceWorker.ready) as SyncRegistration;
+  if (registration.sync) {
+    try {
+      await registration.sync.register(SYNC_TAG);
+      return;
+    } catch (error) {
+      console.warn('注册后台同步失败，改为直接通知 Service Worker:', error);
+    }
+  }
+  registration.active?.postMessage({ type: SYNC_TAG });
+}
+
+/**
+ * 把上传失败的音频段加入离线队列
+ */
+export async function enqueueUpload(
+  blob: Blob,
+  taskId: string,
+  segmentIndex: number,
+  takeId: number | null,
+  fields: UploadFields = {}
+): Promise<boolean> {
+  if (!('serviceWorker' in navigator)) return false;
+
+  try {
+    const item: QueuedUpload = {
+      id: queueId(taskId, segmentIndex),
+      taskId,
+      segmentIndex,
+      takeId,
+      blob,
+      fileName: `segment_${segmentIndex}.${getAudioExtension(blob.type)}`,
+      fields,
+      endpoint: apiUrl('/api/upload/audio'),
+      status: 'pending',
+      attempts: 0,
+      createdAt: Date.now(),
+    };
+
+    const db = await openDB();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(UPLOAD_QUEUE_STORE, 'readwrite');
+      tx.objectStore(UPLOAD_QUEUE_STORE).put(item);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    db.close();
+
+    // 不等待：Service Worker 未注册成功时 ready 永远不会 resolve
+    flushUploadQueue().catch(error => console.error('触发离线补传失败:', error));
+    console.log('📥 已加入离线上传队列:', item.id);
+    return true;
+  } catch (error) {
+    console.error('加入离线上传队列失败:', error);
+    return false;
+  }
+}
+
+/**
+ * 从队列移除（页面自己上传成功、重录了该段，或已处理完补传结果）
+ */
+export async function removeQueuedUpload(taskId: string, segmentIndex: number): Promise<void> {
+  try {
+    const db = await openDB();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(UPLOAD_QUEUE_STORE, 'readwrite');
+      tx.objectStore(UPLOAD_QUEUE_STORE).delete(queueId(taskId, segmentIndex));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    db.close();
+  } catch (error) {
+    console.error('移除离线上传记录失败:', error);
+  }
+}
+
+/**
+ * 读取页面关闭期间已由 Service Worker 补传成功的段
+ */
+export async function getCompletedUploads(taskId: string): Promise<QueuedUploadResult[]> {
+  try {
+    const db = await openDB();
+    const items = await new Promise<QueuedUpload[]>((resolve, reject) => {
+      const request = db.transaction(UPLOAD_QUEUE_STORE, 'readonly').objectStore(UPLOAD_QUEUE_STORE).getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    db.close();
+
+    return items
+      .filter((item) => item.taskId === taskId && item.status === 'uploaded')
+      .map(({ segmentIndex, takeId, url, key }) => ({ taskId, segmentIndex, takeId: takeId ?? null, url, key }));
+  } catch (error) {
+    console.error('读取离线上传队列失败:', error);
+    return [];
+  }
+}
+
+/**
+ * 监听 Service Worker 补传成功的通知，返回取消监听函数
+ */
+export function onQueuedUploadComplete(callback: (result: QueuedUploadResult) => void): () => void {
+  if (!('serviceWorker' in navigator)) return () => {};
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === UPLOADED_MESSAGE) {
+      const { taskId, segmentIndex, takeId, url, key } = event.data;
+      callback({ taskId, segmentIndex, takeId: takeId ?? null, url, key });
+    }
+  };
+
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+}
+
+export default {
+  isPermanentFailure,
+  flushUploadQueue,
+  enqueueUpload,
+  removeQueuedUpload,
+  getCompletedUploads,
+  onQueuedUploadComplete,
+};
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { deEss, spectralDenoise } from './voice-dsp';
+import { amplitudeAt, rms, SAMPLE_RATE, toDb, tone } from '../test/signal';
+
+// 固定种子的伪随机数，保证每次运行的噪声相同
+function createRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 2 ** 32;
+  };
+}
+
+// 前 1 秒只有底噪，后 2 秒是 440Hz 人声频段的纯音加同样的底噪
+function noisyTone(): Float32Array {
+  const random = createRandom(42);
+  const noiseOnly = Math.round(1 * SAMPLE_RATE);
+  const samples = new Float32Array(noiseOnly + Math.round(2 * SAMPLE_RATE));
+  for (let i = 0; i < samples.length; i++) {
+    const noise = (random() * 2 - 1) * 0.02;
+    const signal = i >= noiseOnly ? 0.5 * Math.sin((2 * Math.PI * 440 * (i - noiseOnly)) / SAMPLE_RATE) : 0;
+    samples[i] = signal + noise;
+  }
+  return samples;
+}
+
+describe('spectralDenoise', () => {
+  const input = noisyTone();
+  const output = spectralDenoise(input);
+  // 避开开头、结尾和纯音起始处的过渡
+  const noiseRange = [Math.round(0.1 * SAMPLE_RATE), Math.round(0.9 * SAMPLE_RATE)] as const;
+  const toneRange = [Math.round(1.5 * SAMPLE_RATE), Math.round(2.9 * SAMPLE_RATE)] as const;
+
+  it('输出长度不变', () => {
+    expect(output.length).toBe(input.length);
+  });
+
+  it('底噪至少压低 10dB', () => {
+    const reduction = toDb(rms(output, ...noiseRange) / rms(input, ...noiseRange));
+    expect(reduction).toBeLessThan(-10);
+  });
+
+  it('440Hz 纯音基本保留（变化在 1dB 以内）', () => {
+    const change = toDb(amplitudeAt(output, 440, ...toneRange) / amplitudeAt(input, 440, ...toneRange));
+    expect(Math.abs(change)).toBeLessThan(1);
+  });
+
+  it('同样的输入总是得到同样的输出', () => {
+    expect(spectralDenoise(noisyTone())).toEqual(output);
+  });
+});
+
+describe('deEss', () => {
+  it('不压低 440Hz 的人声', () => {
+    const input = tone(440, 0.5, 1);
+    const output = deEss(input, SAMPLE_RATE);
+    const range = [Math.round(0.1 * SAMPLE_RATE), input.length] as const;
+
+    const change = toDb(amplitudeAt(output, 440, ...range) / amplitudeAt(input, 440, ...range));
+    expect(Math.abs(change)).toBeLessThan(0.5);
+  });
+
+  it('压低响亮的 8kHz 齿音', () => {
+    const input = tone(8000, 0.5, 1);
+    const output = deEss(input, SAMPLE_RATE);
+    const range = [Math.round(0.1 * SAMPLE_RATE), input.length] as const;
+
+    expect(toDb(rms(output, ...range) / rms(input, ...range))).toBeLessThan(-6);
+  });
+
+  it('同样的输入总是得到同样的输出', () => {
+    const input = noisyTone();
+    expect(deEss(input, SAMPLE_RATE)).toEqual(deEss(input, SAMPLE_RATE));
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * 人声效果中逐采样计算的部分：频谱降噪、齿音消除、变调
+ * 不依赖 DOM，可在 Worker 中运行（见 workers/voice-effects.worker.ts），也可在主线程直接调用
+ */
+
+export interface SampleEffects {
+  denoise: boolean;
+  deEss: boolean;
+  pitchRatio: number | null; // 变调比例，null 表示不变调
+}
+
+// 频谱降噪
+const FFT_SIZE = 1024;
+const FFT_HOP = FFT_SIZE / 4;
+const OLA_GAIN = 1.5; // Hann 窗分析+合成、75% 重叠时窗平方和为 1.5
+const NOISE_FRAME_RATIO = 0.1; // 取最安静的 10% 帧估计噪声谱
+const NOISE_OVERSUBTRACT = 1.5;
+const DENOISE_FLOOR = 0.1; // 最多压低20dB，保留一点底噪听起来更自然
+const GAIN_SMOOTHING = 0.5; // 帧间平滑，减少"音乐噪声"
+
+// 齿音消除
+const DEESS_FREQUENCY = 5500;
+const DEESS_THRESHOLD = 0.05;
+const DEESS_RATIO = 4;
+const DEESS_ATTACK = 0.002;
+const DEESS_RELEASE = 0.05;
+
+// 变调
+const GRAIN_SIZE = 2048;
+const GRAIN_HOP = GRAIN_SIZE / 4;
+
+function hannWindow(size: number): Float32Array {
+  const window = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size);
+  }
+  return window;
+}
+
+/**
+ * 原地基2 FFT，inverse 为 true 时做逆变换
+ */
+function fft(re: Float32Array, im: Float32Array, inverse: boolean) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let len = 2; len <= n; len <<= 1) {
+    const half = len >> 1;
+    const angle = ((inverse ? 2 : -2) * Math.PI) / len;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < half; k++) {
+        const a = i + k;
+        const b = a + half;
+        const bRe = re[b] * wRe - im[b] * wIm;
+        const bIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - bRe;
+        im[b] = im[a] - bIm;
+        re[a] += bRe;
+        im[a] += bIm;
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+}
+
+/**
+ * 频谱降噪：用最安静的帧估计噪声谱，各频点按信噪比衰减
+ */
+export function spectralDenoise(samples: Float32Array): Float32Array {
+  const window = hannWindow(FFT_SIZE);
+  const bins = FFT_SIZE / 2 + 1;
+  const re = new Float32Array(FFT_SIZE);
+  const im = new Float32Array(FFT_SIZE);
+  // 第一帧从 -FFT_SIZE + FFT_HOP 开始，保证每个采样都被完整重叠覆盖
+  const frameStarts: number[] = [];
+  for (let start = -FFT_SIZE + FFT_HOP; start < samples.length; start += FFT_HOP) {
+    frameStarts.push(start);
+  }
+
+  const loadFrame = (start: number) => {
+    for (let i = 0; i < FFT_SIZE; i++) {
+      const idx = start + i;
+      re[i] = idx >= 0 && idx < samples.length ? samples[idx] * window[i] : 0;
+      im[i] = 0;
+    }
+    fft(re, im, false);
+  };
+
+  // 按帧能量找出最安静的帧，平均它们的幅度谱作为噪声谱
+  const energies = frameStarts.map((start) => {
+    let sum = 0;
+    for (let i = Math.max(0, start); i < Math.min(samples.length, start + FFT_SIZE); i++) {
+      sum += samples[i] * samples[i];
+    }
+    return sum;
+  });
+  const quietFrames = frameStarts
+    .map((start, idx) => ({ start, energy: energies[idx] }))
+    .sort((a, b) => a.energy - b.energy)
+    .slice(0, Math.max(1, Math.floor(frameStarts.length * NOISE_FRAME_RATIO)));
+
+  const noise = new Float32Array(bins);
+  quietFrames.forEach(({ start }) => {
+    loadFrame(start);
+    for (let k = 0; k < bins; k++) {
+      noise[k] += Math.hypot(re[k], im[k]) / quietFrames.length;
+    }
+  });
+
+  const output = new Float32Array(samples.length);
+  const gains = new Float32Array(bins).fill(1);
+  frameStarts.forEach((start) => {
+    loadFrame(start);
+    for (let k = 0; k < bins; k++) {
+      const magnitude = Math.hypot(re[k], im[k]);
+      const target = magnitude > 0
+        ? Math.max(DENOISE_FLOOR, 1 - (NOISE_OVERSUBTRACT * noise[k]) / magnitude)
+        : DENOISE_FLOOR;
+      gains[k] = GAIN_SMOOTHING * gains[k] + (1 - GAIN_SMOOTHING) * target;
+      re[k] *= gains[k];
+      im[k] *= gains[k];
+      // 实信号频谱共轭对称
+      if (k > 0 && k < bins - 1) {
+        re[FFT_SIZE - k] = re[k];
+        im[FFT_SIZE - k] = -im[k];
+      }
+    }
+    fft(re, im, true);
+    for (let i = 0; i < FFT_SIZE; i++) {
+      const idx = start + i;
+      if (idx >= 0 && idx < samples.length) {
+        output[idx] += (re[i] * window[i]) / OLA_GAIN;
+      }
+    }
+  });
+  return output;
+}
+
+/**
+ * 齿音消除：分出高频部分，高频能量超过阈值时单独压低
+ * 高频 = 原信号 - 低通，两部分相加能完整还原，不压缩时不改变声音
+ */
+export function deEss(samples: Float32Array, sampleRate: number): Float32Array {
+  // RBJ 低通
+  const w0 = (2 * Math.PI * DEESS_FREQUENCY) / sampleRate;
+  const alpha = Math.sin(w0) / (2 * Math.SQRT1_2);
+  const cos = Math.cos(w0);
+  const a0 = 1 + alpha;
+  const b0 = (1 - cos) / 2 / a0;
+  const b1 = (1 - cos) / a0;
+  const b2 = b0;
+  const a1 = (-2 * cos) / a0;
+  const a2 = (1 - alpha) / a0;
+
+  const attack = Math.exp(-1 / (DEESS_ATTACK * sampleRate));
+  const release = Math.exp(-1 / (DEESS_RELEASE * sampleRate));
+  const output = new Float32Array(samples.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  let envelope = 0;
+
+  for (let i = 0; i < samples.length; i++) {
+    const x = samples[i];
+    const low = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = low;
+
+    const high = x - low;
+    const level = Math.abs(high);
+    envelope = level > envelope
+      ? attack * envelope + (1 - attack) * level
+      : release * envelope + (1 - release) * level;
+    const gain = envelope > DEESS_THRESHOLD
+      ? Math.pow(DEESS_THRESHOLD / envelope, 1 - 1 / DEESS_RATIO)
+      : 1;
+    output[i] = low + high * gain;
+  }
+  return output;
+}
+
+/**
+ * 颗粒重叠相加变调，时长不变
+ * @param ratio 大于1升调，小于1降调
+ */
+export function pitchShift(samples: Float32Array, ratio: number): Float32Array {
+  const window = hannWindow(GRAIN_SIZE);
+  const output = new Float32Array(samples.length);
+  const weights = new Float32Array(samples.length);
+  const center = GRAIN_SIZE / 2;
+
+  for (let start = -GRAIN_SIZE + GRAIN_HOP; start < samples.length; start += GRAIN_HOP) {
+    for (let i = 0; i < GRAIN_SIZE; i++) {
+      const outIdx = start + i;
+      if (outIdx < 0 || outIdx >= samples.length) continue;
+      // 以颗粒中心对齐，按 ratio 重采样颗粒内容
+      const position = start + center + (i - center) * ratio;
+      if (position < 0 || position >= samples.length - 1) continue;
+      const base = Math.floor(position);
+      const frac = position - base;
+      const value = samples[base] * (1 - frac) + samples[base + 1] * frac;
+      output[outIdx] += value * window[i];
+      weights[outIdx] += window[i];
+    }
+  }
+
+  for (let i = 0; i < output.length; i++) {
+    if (weights[i] > 1e-3) output[i] /= weights[i];
+  }
+  return output;
+}
+
+/**
+ * 按降噪 → 齿音消除 → 变调的顺序处理，输出长度不变
+ */
+export function applySampleEffects(samples: Float32Array, sampleRate: number, effects: SampleEffects): Float32Array {
+  let processed = samples;
+  if (effects.denoise) {
+    processed = spectralDenoise(processed);
+  }
+  if (effects.deEss) {
+    processed = deEss(processed, sampleRate);
+  }
+  if (effects.pitchRatio !== null) {
+    processed = pitchShift(processed, effects.pitchRatio);
+  }
+  return processed;
+}
+
+export default {
+  spectralDenoise,
+  deEss,
+  pitchShift,
+  applySampleEffects,
+};
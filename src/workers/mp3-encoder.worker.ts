@@ -0,0 +1,110 @@
+/**
+ * MP3 编码 Worker
+ * 把录音得到的 PCM WAV 编码为 MP3，避免阻塞录音页面主线程
+ */
+
+import { Mp3Encoder } from '@breezystack/lamejs';
+
+export interface EncodeRequest {
+  id: number;
+  wav: ArrayBuffer;
+  bitrate: number; // kbps
+}
+
+export interface EncodeResponse {
+  id: number;
+  mp3?: ArrayBuffer;
+  error?: string;
+}
+
+const FRAME_SIZE = 1152; // MP3 每帧采样数
+
+interface WavInfo {
+  sampleRate: number;
+  channels: number;
+  samples: Int16Array; // 单声道 PCM
+}
+
+/**
+ * 解析 16 位 PCM WAV，多声道时混为单声道
+ */
+function parseWav(buffer: ArrayBuffer): WavInfo {
+  const view = new DataView(buffer);
+  const tag = (offset: number) => String.fromCharCode(
+    view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3)
+  );
+
+  if (tag(0) !== 'RIFF' || tag(8) !== 'WAVE') {
+    throw new Error('不是有效的 WAV 文件');
+  }
+
+  let sampleRate = 0;
+  let channels = 0;
+  let bitsPerSample = 0;
+  let offset = 12;
+
+  while (offset + 8 <= view.byteLength) {
+    const chunkId = tag(offset);
+    const chunkSize = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+    } else if (chunkId === 'data') {
+      if (bitsPerSample !== 16 || channels < 1) {
+        throw new Error(`不支持的 WAV 格式: ${bitsPerSample}bit ${channels}ch`);
+      }
+      const size = Math.min(chunkSize, view.byteLength - body);
+      const frames = Math.floor(size / (2 * channels));
+      const samples = new Int16Array(frames);
+      for (let i = 0; i < frames; i++) {
+        let sum = 0;
+        for (let ch = 0; ch < channels; ch++) {
+          sum += view.getInt16(body + (i * channels + ch) * 2, true);
+        }
+        samples[i] = sum / channels;
+      }
+      return { sampleRate, channels, samples };
+    }
+
+    offset = body + chunkSize + (chunkSize % 2); // 块按偶数字节对齐
+  }
+
+  throw new Error('WAV 文件缺少音频数据');
+}
+
+function encodeMp3(wav: ArrayBuffer, bitrate: number): ArrayBuffer {
+  const { sampleRate, samples } = parseWav(wav);
+  const encoder = new Mp3Encoder(1, sampleRate, bitrate);
+  const chunks: Uint8Array[] = [];
+
+  for (let i = 0; i < samples.length; i += FRAME_SIZE) {
+    const chunk = encoder.encodeBuffer(samples.subarray(i, i + FRAME_SIZE));
+    if (chunk.length > 0) chunks.push(chunk);
+  }
+  const tail = encoder.flush();
+  if (tail.length > 0) chunks.push(tail);
+
+  const output = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let position = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, position);
+    position += chunk.length;
+  }
+  return output.buffer;
+}
+
+self.onmessage = (event: MessageEvent<EncodeRequest>) => {
+  const { id, wav, bitrate } = event.data;
+
+  try {
+    const mp3 = encodeMp3(wav, bitrate);
+    const response: EncodeResponse = { id, mp3 };
+    self.postMessage(response, { transfer: [mp3] });
+  } catch (error) {
+    const response: EncodeResponse = { id, error: error instanceof Error ? error.message : '编码失败' };
+    self.postMessage(response);
+  }
+};
@@ -0,0 +1,76 @@
+/**
+ * PCM 录音 AudioWorklet
+ * 在音频线程收集麦克风的原始采样，停止时一次性交给主线程写成 WAV
+ * 以 ?worker&url 打包后通过 audioWorklet.addModule 加载，不能 import 其他模块
+ */
+
+export type PcmRecorderCommand = 'pause' | 'resume' | 'stop';
+
+export interface PcmRecorderResult {
+  samples: Float32Array;
+}
+
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+
+declare function registerProcessor(name: string, processorCtor: new () => AudioWorkletProcessor): void;
+
+class PcmRecorderProcessor extends AudioWorkletProcessor {
+  private chunks: Float32Array[] = [];
+  private length = 0;
+  private recording = true;
+  private stopped = false;
+
+  constructor() {
+    super();
+    this.port.onmessage = (event: MessageEvent<PcmRecorderCommand>) => {
+      switch (event.data) {
+        case 'pause':
+          this.recording = false;
+          break;
+        case 'resume':
+          this.recording = true;
+          break;
+        case 'stop':
+          this.flush();
+          break;
+      }
+    };
+  }
+
+  private flush() {
+    const samples = new Float32Array(this.length);
+    let offset = 0;
+    this.chunks.forEach((chunk) => {
+      samples.set(chunk, offset);
+      offset += chunk.length;
+    });
+    this.chunks = [];
+    this.length = 0;
+    this.stopped = true;
+
+    const result: PcmRecorderResult = { samples };
+    this.port.postMessage(result, [samples.buffer]);
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    if (this.stopped) return false;
+
+    const channels = inputs[0];
+    if (this.recording && channels && channels.length > 0) {
+      // 多声道混为单声道；音频线程会复用输入缓冲，必须拷贝
+      const frame = new Float32Array(channels[0].length);
+      channels.forEach((channel) => {
+        for (let i = 0; i < channel.length; i++) {
+          frame[i] += channel[i] / channels.length;
+        }
+      });
+      this.chunks.push(frame);
+      this.length += frame.length;
+    }
+    return true;
+  }
+}
+
+registerProcessor('pcm-recorder', PcmRecorderProcessor);
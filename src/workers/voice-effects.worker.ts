@@ -0,0 +1,32 @@
+/**
+ * 声音效果 Worker
+ * 频谱降噪要对每帧做两次 FFT，几十秒的录音在手机上要算好几秒，放到 Worker 中避免页面卡顿
+ */
+
+import { applySampleEffects, SampleEffects } from '../utils/voice-dsp';
+
+export interface EffectsRequest {
+  id: number;
+  samples: Float32Array;
+  sampleRate: number;
+  effects: SampleEffects;
+}
+
+export interface EffectsResponse {
+  id: number;
+  samples?: Float32Array;
+  error?: string;
+}
+
+self.onmessage = (event: MessageEvent<EffectsRequest>) => {
+  const { id, samples, sampleRate, effects } = event.data;
+
+  try {
+    const processed = applySampleEffects(samples, sampleRate, effects);
+    const response: EffectsResponse = { id, samples: processed };
+    self.postMessage(response, { transfer: [processed.buffer] });
+  } catch (error) {
+    const response: EffectsResponse = { id, error: error instanceof Error ? error.message : '声音效果处理失败' };
+    self.postMessage(response);
+  }
+};
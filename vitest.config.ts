@@ -0,0 +1,21 @@
+import { defineConfig } from 'vitest/config';
+import react from '@vitejs/plugin-react';
+import path from 'path';
+
+// 单元测试在 jsdom 中运行，麦克风、Web Audio 等由 src/test/media.ts 的假实现代替
+export default defineConfig({
+  plugins: [react()],
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, './src'),
+    },
+  },
+  test: {
+    environment: 'jsdom',
+    include: ['src/**/*.test.{ts,tsx}'],
+    setupFiles: ['./src/test/setup.ts'],
+    env: {
+      VITE_RECORDER_ENGINE: 'fake', // 使用不读取麦克风的测试引擎
+    },
+  },
+});